@@ -0,0 +1,93 @@
+// Re-encodes images off the main thread. Decoding through createImageBitmap
+// applies the EXIF orientation, and the canvas output carries no metadata.
+// Also computes perceptual hashes for the similar-images finder.
+
+export type ImageWorkerRequest =
+  | {
+    id: number;
+    kind: 'encode';
+    file: Blob;
+    maxWidth: number;
+    maxHeight: number;
+    type: string;
+    quality: number;
+  }
+  | { id: number; kind: 'hash'; file: Blob };
+
+export type ImageWorkerResponse =
+  | { id: number; blob: Blob; width: number; height: number }
+  | { id: number; hash: string }
+  | { id: number; error: string };
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<ImageWorkerRequest>) => void) | null;
+  postMessage: (message: ImageWorkerResponse) => void;
+};
+
+// dHash: shrink to 9x8 greyscale and record whether each pixel is brighter than its
+// right neighbour, giving 64 bits as 16 hex digits. Transparent areas count as white.
+const differenceHash = async (file: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = new OffscreenCanvas(9, 8);
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, 9, 8);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, 9, 8);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, 9, 8);
+  const luma = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) {
+      byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+};
+
+ctx.onmessage = async (event) => {
+  const request = event.data;
+  if (request.kind === 'hash') {
+    try {
+      ctx.postMessage({ id: request.id, hash: await differenceHash(request.file) });
+    } catch (error) {
+      ctx.postMessage({ id: request.id, error: (error as Error).message });
+    }
+    return;
+  }
+
+  const { id, file, maxWidth, maxHeight, type, quality } = request;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(
+      1,
+      maxWidth > 0 ? maxWidth / bitmap.width : 1,
+      maxHeight > 0 ? maxHeight / bitmap.height : 1,
+    );
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d')!;
+    if (type === 'image/jpeg') {
+      // JPEG has no alpha channel; transparent pixels would otherwise turn black.
+      context.fillStyle = '#fff';
+      context.fillRect(0, 0, width, height);
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({ type, quality });
+    ctx.postMessage({ id, blob, width, height });
+  } catch (error) {
+    ctx.postMessage({ id, error: (error as Error).message });
+  }
+};
@@ -1,8 +1,23 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
+import type { ImageWorkerRequest, ImageWorkerResponse } from './imageWorker';
 
 const GITHUB_API_BASE = 'https://api.github.com/repos';
+const GITHUB_GRAPHQL_URL = 'https://api.github.com/graphql';
+// github.com's OAuth endpoints send no CORS headers, so browsers need a proxy in front of them.
+const GITHUB_OAUTH_BASE = process.env.GITHUB_OAUTH_BASE || 'https://github.com';
+// The Git LFS batch endpoint on github.com has the same limitation.
+const GITHUB_LFS_BASE = process.env.GITHUB_LFS_BASE || 'https://github.com';
+const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID || '';
 const IMAGES_PER_PAGE = 15;
+const IMAGE_DRAG_TYPE = 'application/x-luu-anh-image';
+const UPLOAD_CONCURRENCY = 4;
+const IMAGE_FILE_PATTERN = /\.(jpg|jpeg|png|gif|webp|avif)$/i;
+const THUMBNAIL_DIR = '.thumbs';
+const THUMBNAIL_SIZE = 360; // 2x the gallery column width
+const HISTORY_BATCH_SIZE = 50;
+const HISTORY_CONCURRENCY = 4;
+const MAX_BLOB_SIZE = 100 * 1024 * 1024; // GitHub rejects blobs above 100 MB
 
 // --- Utility Functions ---
 const sanitizeFolderName = (name: string): string => {
@@ -14,7 +29,30 @@ const sanitizeFolderName = (name: string): string => {
     .replace(/[^a-z0-9-]/g, '');
 };
 
-const fileToBase64 = (file: File): Promise<string> => {
+const parentFolder = (path: string): string => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+const baseName = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+const joinPath = (parent: string, name: string): string => parent ? `${parent}/${name}` : name;
+
+const isWithinFolder = (path: string, folder: string): boolean => path === folder || path.startsWith(`${folder}/`);
+
+// Every ancestor of `path`, outermost first, excluding the path itself.
+const ancestorFolders = (path: string): string[] => {
+  const segments = path.split('/');
+  return segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join('/'));
+};
+
+const base64ToBlob = (content: string, type = ''): Blob => {
+  const binary = atob(content.replace(/\n/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+const fileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -23,154 +61,3530 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+// Same id git gives the content, so it can be compared with SHAs from the tree.
+const gitBlobSha = async (file: Blob): Promise<string> => {
+  const header = new TextEncoder().encode(`blob ${file.size}\0`);
+  const digest = await crypto.subtle.digest('SHA-1', await new Blob([header, file]).arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Appends -1, -2, ... to the file name until the path is not taken.
+const uniquePath = (path: string, taken: Set<string>): string => {
+  const dot = path.lastIndexOf('.');
+  const [stem, extension] = dot > path.lastIndexOf('/') ? [path.slice(0, dot), path.slice(dot)] : [path, ''];
+  let candidate = path;
+  for (let n = 1; taken.has(candidate); n++) candidate = `${stem}-${n}${extension}`;
+  return candidate;
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+// Runs `worker` over `items` with at most `limit` calls in flight.
+const runWithConcurrency = async <T,>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  const queue = [...items];
+  const runners = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+    while (queue.length > 0) {
+      await worker(queue.shift()!);
+    }
+  });
+  await Promise.all(runners);
+};
+
+// --- Image Processing ---
+type OutputFormat = 'original' | 'image/jpeg' | 'image/webp' | 'image/avif';
+
+type ProcessingOptions = {
+  resize: boolean;
+  maxWidth: number;
+  maxHeight: number;
+  format: OutputFormat;
+  quality: number;
+  stripMetadata: boolean;
+};
+
+const DEFAULT_PROCESSING_OPTIONS: ProcessingOptions = {
+  resize: false,
+  maxWidth: 2048,
+  maxHeight: 2048,
+  format: 'original',
+  quality: 0.85,
+  stripMetadata: true,
+};
+
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+// True when processing changed the file, so the user gets to review the size first.
+const isReprocessed = (conflict: UploadConflict) => !conflict.processed || conflict.processed.size !== conflict.file.size;
+
+const processingOptionsKey = (repo: string, folder: string) => `upload_options:${repo}:${folder}`;
+
+const loadProcessingOptions = (repo: string, folder: string): ProcessingOptions => {
+  try {
+    const stored = localStorage.getItem(processingOptionsKey(repo, folder));
+    return stored ? { ...DEFAULT_PROCESSING_OPTIONS, ...JSON.parse(stored) } : DEFAULT_PROCESSING_OPTIONS;
+  } catch {
+    return DEFAULT_PROCESSING_OPTIONS;
+  }
+};
+
+const saveProcessingOptions = (repo: string, folder: string, options: ProcessingOptions) => {
+  localStorage.setItem(processingOptionsKey(repo, folder), JSON.stringify(options));
+};
+
+let imageWorker: Worker | null = null;
+let nextImageJobId = 0;
+const imageJobs = new Map<number, (response: ImageWorkerResponse) => void>();
+
+// Omit does not distribute over unions, so strip `id` from each request kind separately.
+type WorkerRequest<K> = K extends ImageWorkerRequest ? Omit<K, 'id'> : never;
+
+const runInWorker = (request: WorkerRequest<ImageWorkerRequest>): Promise<ImageWorkerResponse> => {
+  if (!imageWorker) {
+    imageWorker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+    imageWorker.onmessage = (event: MessageEvent<ImageWorkerResponse>) => {
+      imageJobs.get(event.data.id)?.(event.data);
+      imageJobs.delete(event.data.id);
+    };
+    // A worker that fails to load or crashes answers nothing, so fail every pending job
+    // and start a fresh worker on the next request.
+    imageWorker.onerror = imageWorker.onmessageerror = (event: Event) => {
+      event.preventDefault();
+      const message = event instanceof ErrorEvent && event.message ? event.message : 'Trình xử lý ảnh gặp lỗi';
+      for (const [id, settle] of imageJobs) settle({ id, error: message });
+      imageJobs.clear();
+      imageWorker?.terminate();
+      imageWorker = null;
+    };
+  }
+  const id = nextImageJobId++;
+  return new Promise((resolve, reject) => {
+    imageJobs.set(id, response => 'error' in response ? reject(new Error(response.error)) : resolve(response));
+    imageWorker!.postMessage({ id, ...request });
+  });
+};
+
+const encodeInWorker = async (request: Omit<Extract<ImageWorkerRequest, { kind: 'encode' }>, 'id' | 'kind'>): Promise<Blob> => {
+  const response = await runInWorker({ kind: 'encode', ...request });
+  return (response as { blob: Blob }).blob;
+};
+
+const hashInWorker = async (file: Blob): Promise<string> => {
+  const response = await runInWorker({ kind: 'hash', file });
+  return (response as { hash: string }).hash;
+};
+
+// Drops ancillary PNG chunks that can carry EXIF or text metadata. Pixel data is untouched.
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'iTXt', 'zTXt', 'tIME']);
+
+const stripPngMetadata = async (file: File): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const chunkType = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (!PNG_METADATA_CHUNKS.has(chunkType)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  return new Blob(parts, { type: 'image/png' });
+};
+
+// Drops the APP1 (EXIF, XMP), APP13 (IPTC) and comment segments of a JPEG. The
+// APP2 ICC profile and the compressed image data are copied as is.
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe]);
+const JPEG_START_OF_SCAN = 0xda;
+
+const stripJpegMetadata = async (file: File): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === JPEG_START_OF_SCAN) break;
+    const end = offset + 2 + view.getUint16(offset + 2);
+    if (!JPEG_METADATA_MARKERS.has(marker)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  parts.push(bytes.subarray(offset));
+  return new Blob(parts, { type: 'image/jpeg' });
+};
+
+// Drops the EXIF and XMP chunks of a WebP and clears their flags in the VP8X header.
+const WEBP_METADATA_CHUNKS = new Set(['EXIF', 'XMP ']);
+const WEBP_EXIF_XMP_FLAGS = 0x0c;
+
+const stripWebpMetadata = async (file: File): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const parts: Uint8Array[] = [];
+  let size = 4;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const chunkType = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even length.
+    const end = Math.min(offset + 8 + length + (length & 1), bytes.length);
+    if (!WEBP_METADATA_CHUNKS.has(chunkType)) {
+      const chunk = bytes.slice(offset, end);
+      if (chunkType === 'VP8X') chunk[8] &= ~WEBP_EXIF_XMP_FLAGS;
+      parts.push(chunk);
+      size += chunk.length;
+    }
+    offset = end;
+  }
+  const header = bytes.slice(0, 12);
+  new DataView(header.buffer).setUint32(4, size, true);
+  return new Blob([header, ...parts], { type: 'image/webp' });
+};
+
+// Removes metadata without re-encoding. Formats without a lossless stripper (AVIF) are kept as is.
+const stripImageMetadata = async (file: File): Promise<File> => {
+  const strip = { 'image/png': stripPngMetadata, 'image/jpeg': stripJpegMetadata, 'image/webp': stripWebpMetadata }[file.type];
+  return strip ? new File([await strip(file)], file.name, { type: file.type }) : file;
+};
+
+const replaceExtension = (name: string, type: string): string => {
+  const extension = FORMAT_EXTENSIONS[type];
+  if (!extension) return name;
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base}.${extension}`;
+};
+
+// Applies the folder's processing options. GIFs are passed through since
+// re-encoding would drop their animation.
+const processImageFile = async (file: File, options: ProcessingOptions): Promise<File> => {
+  if (file.type === 'image/gif' || !FORMAT_EXTENSIONS[file.type]) return file;
+
+  const targetType = options.format === 'original' ? file.type : options.format;
+  const needsReencode = options.resize || targetType !== file.type;
+
+  if (needsReencode && typeof OffscreenCanvas !== 'undefined') {
+    const blob = await encodeInWorker({
+      file,
+      maxWidth: options.resize ? options.maxWidth : 0,
+      maxHeight: options.resize ? options.maxHeight : 0,
+      type: targetType,
+      quality: options.quality,
+    });
+    // Browsers silently fall back to PNG for formats they cannot encode (often AVIF).
+    return new File([blob], replaceExtension(file.name, blob.type), { type: blob.type });
+  }
+  return options.stripMetadata ? stripImageMetadata(file) : file;
+};
+
+const thumbnailPath = (path: string): string => {
+  const slash = path.lastIndexOf('/');
+  return `${path.slice(0, slash + 1)}${THUMBNAIL_DIR}/${path.slice(slash + 1)}.webp`;
+};
+
+const createThumbnail = (file: Blob): Promise<Blob> => {
+  return encodeInWorker({ file, maxWidth: THUMBNAIL_SIZE, maxHeight: THUMBNAIL_SIZE, type: 'image/webp', quality: 0.8 });
+};
+
+// --- Image Editing ---
+// Each edit returns a new canvas so earlier states stay available for undo.
+type CropRect = { x: number; y: number; width: number; height: number };
+
+const drawToCanvas = (width: number, height: number, draw: (context: OffscreenCanvasRenderingContext2D) => void) => {
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  const context = canvas.getContext('2d')!;
+  context.imageSmoothingQuality = 'high';
+  draw(context);
+  return canvas;
+};
+
+const rotateCanvas = (source: OffscreenCanvas, clockwise: boolean) =>
+  drawToCanvas(source.height, source.width, context => {
+    context.translate(clockwise ? source.height : 0, clockwise ? 0 : source.width);
+    context.rotate(clockwise ? Math.PI / 2 : -Math.PI / 2);
+    context.drawImage(source, 0, 0);
+  });
+
+const flipCanvas = (source: OffscreenCanvas, horizontal: boolean) =>
+  drawToCanvas(source.width, source.height, context => {
+    context.translate(horizontal ? source.width : 0, horizontal ? 0 : source.height);
+    context.scale(horizontal ? -1 : 1, horizontal ? 1 : -1);
+    context.drawImage(source, 0, 0);
+  });
+
+const cropCanvas = (source: OffscreenCanvas, rect: CropRect) =>
+  drawToCanvas(rect.width, rect.height, context => {
+    context.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  });
+
+const resizeCanvas = (source: OffscreenCanvas, width: number, height: number) =>
+  drawToCanvas(width, height, context => context.drawImage(source, 0, 0, width, height));
+
+// Bounding box of the pixels that are not fully transparent, or null for an empty image.
+const findOpaqueBounds = (source: OffscreenCanvas): CropRect | null => {
+  const { data, width, height } = source.getContext('2d')!.getImageData(0, 0, source.width, source.height);
+  let [left, top, right, bottom] = [width, height, -1, -1];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+  return right < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+const encodeCanvas = (source: OffscreenCanvas, type: string): Promise<Blob> => {
+  // JPEG has no alpha channel; flatten onto white instead of black.
+  const canvas = type === 'image/jpeg'
+    ? drawToCanvas(source.width, source.height, context => {
+      context.fillStyle = '#fff';
+      context.fillRect(0, 0, source.width, source.height);
+      context.drawImage(source, 0, 0);
+    })
+    : source;
+  return canvas.convertToBlob({ type, quality: 0.92 });
+};
+
+// --- Offline Cache ---
+const CACHE_DB_NAME = 'luu-anh-cache';
+const CACHE_STORES = ['responses', 'listings', 'blobs', 'hashes'] as const;
+type CacheStore = typeof CACHE_STORES[number];
+type CachedResponse = { etag: string; data: any };
+// Values are wrapped with their write time so each store can drop its oldest entries.
+type CacheRecord = { value: unknown; storedAt: number };
+
+// Maximum number of entries per store. Blobs are full images, so they get the smallest share.
+const CACHE_LIMITS: Record<CacheStore, number> = { responses: 1000, listings: 300, blobs: 150, hashes: 20000 };
+
+let cacheDbPromise: Promise<IDBDatabase> | null = null;
+
+const openCacheDb = (): Promise<IDBDatabase> => {
+  cacheDbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(CACHE_DB_NAME, 3);
+    request.onupgradeneeded = (event) => {
+      for (const store of CACHE_STORES) {
+        // Version 3 wraps every value in a CacheRecord, so older stores are started over.
+        if (event.oldVersion < 3 && request.result.objectStoreNames.contains(store)) {
+          request.result.deleteObjectStore(store);
+        }
+        if (!request.result.objectStoreNames.contains(store)) {
+          request.result.createObjectStore(store).createIndex('storedAt', 'storedAt');
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return cacheDbPromise;
+};
+
+const runCacheTransaction = async <T,>(store: CacheStore, mode: IDBTransactionMode, action: (objectStore: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openCacheDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Deletes the oldest entries of `store` until at most `limit` are left.
+const trimCacheStore = async (store: CacheStore, limit: number): Promise<void> => {
+  const db = await openCacheDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    const count = objectStore.count();
+    count.onsuccess = () => {
+      let excess = count.result - limit;
+      if (excess <= 0) return;
+      const cursor = objectStore.index('storedAt').openCursor();
+      cursor.onsuccess = () => {
+        if (!cursor.result || excess-- <= 0) return;
+        cursor.result.delete();
+        cursor.result.continue();
+      };
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Cache failures (private browsing, quota) are never fatal: the app just falls back to the network.
+const offlineCache = {
+  async get<T>(store: CacheStore, key: string): Promise<T | undefined> {
+    try {
+      const record = await runCacheTransaction<CacheRecord | undefined>(store, 'readonly', objectStore => objectStore.get(key));
+      return record?.value as T | undefined;
+    } catch {
+      return undefined;
+    }
+  },
+
+  async set(store: CacheStore, key: string, value: unknown): Promise<void> {
+    const record: CacheRecord = { value, storedAt: Date.now() };
+    try {
+      await runCacheTransaction(store, 'readwrite', objectStore => objectStore.put(record, key));
+      await trimCacheStore(store, CACHE_LIMITS[store]);
+    } catch (error) {
+      console.error(`Could not cache ${key}`, error);
+      // Out of quota: free the largest store so later writes can succeed.
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        await runCacheTransaction('blobs', 'readwrite', objectStore => objectStore.clear()).catch(() => {});
+      }
+    }
+  },
+
+  async clear(): Promise<void> {
+    try {
+      await Promise.all(CACHE_STORES.map(store => runCacheTransaction(store, 'readwrite', objectStore => objectStore.clear())));
+    } catch (error) {
+      console.error('Could not clear cache', error);
+    }
+    navigator.serviceWorker?.controller?.postMessage('clear-cache');
+  },
+};
+
 // --- GitHub API Helper ---
+type GitHubErrorKind = 'auth' | 'forbidden' | 'not-found' | 'conflict' | 'rate-limit' | 'validation' | 'server' | 'unknown';
+
+const ERROR_KIND_LABELS: Record<GitHubErrorKind, string> = {
+  auth: 'Token không hợp lệ hoặc đã hết hạn',
+  forbidden: 'Token không có quyền thực hiện thao tác này',
+  'not-found': 'Không tìm thấy repo hoặc đường dẫn',
+  conflict: 'Xung đột: dữ liệu trên GitHub đã thay đổi',
+  'rate-limit': 'Đã vượt giới hạn yêu cầu của GitHub',
+  validation: 'GitHub từ chối dữ liệu gửi lên',
+  server: 'Máy chủ GitHub đang gặp sự cố',
+  unknown: 'Lỗi GitHub API',
+};
+
+const classifyError = (status: number, message: string): GitHubErrorKind => {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not-found';
+  if (status === 409) return 'conflict';
+  if (status === 422) return /sha|fast.forward/i.test(message) ? 'conflict' : 'validation';
+  if (status === 429) return 'rate-limit';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+class GitHubApiError extends Error {
+  status: number;
+  kind: GitHubErrorKind;
+
+  constructor(message: string, status: number, kind: GitHubErrorKind = classifyError(status, message)) {
+    super(`${ERROR_KIND_LABELS[kind]}: ${message}`);
+    this.name = 'GitHubApiError';
+    this.status = status;
+    this.kind = kind;
+  }
+}
+
+// --- Token Storage ---
+type TokenStorageMode = 'local' | 'encrypted' | 'session';
+
+const TOKEN_KEY = 'github_token';
+const ENCRYPTED_TOKEN_KEY = 'github_token_encrypted';
+const PBKDF2_ITERATIONS = 310000;
+
+const bytesToBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const base64ToBytes = (content: string): Uint8Array => Uint8Array.from(atob(content), char => char.charCodeAt(0));
+
+const derivePassphraseKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+// Plain localStorage survives restarts but is readable by any script on the
+// page; the encrypted mode needs the passphrase after each reload, and the
+// session mode forgets the token when the tab closes.
+const tokenStorage = {
+  async save(token: string, mode: TokenStorageMode, passphrase = '') {
+    this.clear();
+    if (mode === 'session') {
+      sessionStorage.setItem(TOKEN_KEY, token);
+    } else if (mode === 'encrypted') {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const key = await derivePassphraseKey(passphrase, salt);
+      const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(token));
+      localStorage.setItem(ENCRYPTED_TOKEN_KEY, JSON.stringify({
+        salt: bytesToBase64(salt),
+        iv: bytesToBase64(iv),
+        data: bytesToBase64(new Uint8Array(data)),
+      }));
+    } else {
+      localStorage.setItem(TOKEN_KEY, token);
+    }
+  },
+
+  load(): { token: string } | { encrypted: true } | null {
+    const token = sessionStorage.getItem(TOKEN_KEY) ?? localStorage.getItem(TOKEN_KEY);
+    if (token) return { token };
+    return localStorage.getItem(ENCRYPTED_TOKEN_KEY) ? { encrypted: true } : null;
+  },
+
+  async unlock(passphrase: string): Promise<string> {
+    const stored = JSON.parse(localStorage.getItem(ENCRYPTED_TOKEN_KEY) ?? '{}');
+    const key = await derivePassphraseKey(passphrase, base64ToBytes(stored.salt));
+    try {
+      const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(stored.iv) }, key, base64ToBytes(stored.data));
+      return new TextDecoder().decode(data);
+    } catch {
+      throw new Error('Mật khẩu không đúng.');
+    }
+  },
+
+  clear() {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(ENCRYPTED_TOKEN_KEY);
+    sessionStorage.removeItem(TOKEN_KEY);
+  },
+};
+
+// --- OAuth Device Flow ---
+type DeviceCode = {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  expires_in: number;
+  interval: number;
+};
+
+const postOAuth = async (path: string, body: Record<string, string>) => {
+  const response = await fetch(`${GITHUB_OAUTH_BASE}${path}`, {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ client_id: GITHUB_CLIENT_ID, ...body }),
+  });
+  if (!response.ok) {
+    throw new Error(`GitHub OAuth Error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const deviceFlow = {
+  start(): Promise<DeviceCode> {
+    return postOAuth('/login/device/code', { scope: 'repo' });
+  },
+
+  // Polls until the user approves the code on github.com, honouring `slow_down`.
+  async waitForToken(code: DeviceCode, isCancelled: () => boolean): Promise<string> {
+    let interval = code.interval * 1000;
+    const expiresAt = Date.now() + code.expires_in * 1000;
+    while (Date.now() < expiresAt && !isCancelled()) {
+      await sleep(interval);
+      if (isCancelled()) break;
+      const result = await postOAuth('/login/oauth/access_token', {
+        device_code: code.device_code,
+        grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+      });
+      if (isCancelled()) break;
+      if (result.access_token) return result.access_token;
+      if (result.error === 'slow_down') {
+        interval = (result.interval ?? code.interval + 5) * 1000;
+      } else if (result.error !== 'authorization_pending') {
+        throw new Error(result.error_description ?? result.error);
+      }
+    }
+    throw new Error('Mã xác thực đã hết hạn hoặc bị hủy.');
+  },
+};
+
+// --- Rate Limiting ---
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60 * 1000;
+const THROTTLED_WRITE_SPACING = 1000; // GitHub asks for ~1s between writes after a secondary limit
+
+type RateLimitState = {
+  limit: number | null;
+  remaining: number | null;
+  reset: number | null; // epoch milliseconds
+  throttledUntil: number;
+  queuedWrites: number;
+};
+
+let rateLimit: RateLimitState = { limit: null, remaining: null, reset: null, throttledUntil: 0, queuedWrites: 0 };
+const rateLimitListeners = new Set<(state: RateLimitState) => void>();
+
+const updateRateLimit = (changes: Partial<RateLimitState>) => {
+  rateLimit = { ...rateLimit, ...changes };
+  rateLimitListeners.forEach(listener => listener(rateLimit));
+};
+
+const subscribeRateLimit = (listener: (state: RateLimitState) => void) => {
+  rateLimitListeners.add(listener);
+  listener(rateLimit);
+  return () => { rateLimitListeners.delete(listener); };
+};
+
+const recordRateLimit = (response: Response) => {
+  const remaining = response.headers.get('X-RateLimit-Remaining');
+  // GraphQL and search have their own buckets; the indicator follows the core REST quota.
+  const resource = response.headers.get('X-RateLimit-Resource');
+  if (remaining === null || (resource && resource !== 'core')) return;
+  updateRateLimit({
+    limit: Number(response.headers.get('X-RateLimit-Limit')),
+    remaining: Number(remaining),
+    reset: Number(response.headers.get('X-RateLimit-Reset')) * 1000,
+  });
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Primary limits answer 403/429 with X-RateLimit-Remaining: 0, secondary limits
+// with Retry-After or a "secondary rate limit" message.
+const isThrottled = async (response: Response): Promise<boolean> => {
+  if (response.status === 429) return true;
+  if (response.status !== 403) return false;
+  if (response.headers.get('Retry-After') !== null || response.headers.get('X-RateLimit-Remaining') === '0') return true;
+  const body = await response.clone().json().catch(() => ({}));
+  return /rate limit/i.test(body.message ?? '');
+};
+
+const getRetryDelay = (response: Response | null, attempt: number): number => {
+  const retryAfter = response?.headers.get('Retry-After');
+  if (retryAfter) return Number(retryAfter) * 1000;
+  const reset = response?.headers.get('X-RateLimit-Reset');
+  if (response?.headers.get('X-RateLimit-Remaining') === '0' && reset) {
+    return Math.max(0, Number(reset) * 1000 - Date.now());
+  }
+  return BASE_RETRY_DELAY * 2 ** attempt + Math.random() * 250;
+};
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+// While throttled, writes wait in line and are released one at a time.
+const waitForWriteSlot = (): Promise<void> => {
+  if (rateLimit.throttledUntil <= Date.now()) return Promise.resolve();
+  updateRateLimit({ queuedWrites: rateLimit.queuedWrites + 1 });
+  const slot = writeQueue.then(async () => {
+    await sleep(Math.max(0, rateLimit.throttledUntil - Date.now()));
+    await sleep(THROTTLED_WRITE_SPACING);
+  }).finally(() => updateRateLimit({ queuedWrites: rateLimit.queuedWrites - 1 }));
+  writeQueue = slot;
+  return slot;
+};
+
+// Sends a request, retrying throttled responses for any method (GitHub did not
+// process them) and network errors / 5xx only for idempotent ones.
+const sendWithRetry = async (url: string, init: RequestInit, idempotent: boolean): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    if (!idempotent) await waitForWriteSlot();
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (!idempotent || !navigator.onLine || init.signal?.aborted || attempt >= MAX_RETRIES) throw error;
+      await sleep(getRetryDelay(null, attempt));
+      continue;
+    }
+    recordRateLimit(response);
+
+    const throttled = await isThrottled(response);
+    const delay = getRetryDelay(response, attempt);
+    if (throttled) {
+      updateRateLimit({ throttledUntil: Date.now() + delay });
+    }
+    const retryable = throttled || (idempotent && response.status >= 500);
+    if (!retryable || attempt >= MAX_RETRIES || delay > MAX_RETRY_DELAY) return response;
+    await sleep(delay);
+  }
+};
+
+type GitTreeEntry = {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string | null;
+  size?: number;
+};
+
+type CommitStage = 'reading' | 'tree' | 'commit' | 'ref';
+type CommitProgress = { stage: CommitStage; attempt: number };
+
+const COMMIT_STAGES: { stage: CommitStage; label: string }[] = [
+  { stage: 'reading', label: 'Đọc cây thư mục' },
+  { stage: 'tree', label: 'Tạo cây mới' },
+  { stage: 'commit', label: 'Tạo commit' },
+  { stage: 'ref', label: 'Cập nhật nhánh' },
+];
+
+const MAX_COMMIT_ATTEMPTS = 3;
+const REVIEW_BRANCH_PREFIX = 'assets/';
+const TRASH_COMMIT_LIMIT = 30;
+const VERSION_HISTORY_LIMIT = 20;
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 64;
+const PIXEL_GRID_MIN_ZOOM = 8;
+const SEARCH_DEBOUNCE_MS = 300;
+const DEFAULT_SIMILARITY_THRESHOLD = 5;
+const MAX_ATLAS_SIZE = 8192;
+
+const BROAD_TOKEN_SCOPES = ['admin:', 'delete_repo', 'delete:packages', 'workflow', 'user', 'site_admin', 'codespace'];
+// OAuth app tokens, as issued by the device flow. OAuth apps have no scope narrower than "repo" for private repos.
+const OAUTH_APP_TOKEN_PREFIX = 'gho_';
+
 const githubApi = {
+  // GET responses are stored with their ETag and revalidated with If-None-Match;
+  // a 304 does not count against the rate limit. When the network is down the
+  // stored copy is returned instead. Git objects are skipped: blobs are cached
+  // separately by SHA and refs must never be served stale.
   async request(path: string, token: string, options: RequestInit = {}) {
-    const response = await fetch(`${GITHUB_API_BASE}${path}`, {
-      ...options,
-      headers: {
-        ...options.headers,
-        Authorization: `token ${token}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
-    });
+    const isCacheable = (options.method ?? 'GET').toUpperCase() === 'GET' && !path.includes('/git/');
+    const cached = isCacheable ? await offlineCache.get<CachedResponse>('responses', path) : undefined;
+
+    const method = (options.method ?? 'GET').toUpperCase();
+    let response: Response;
+    try {
+      response = await sendWithRetry(`${GITHUB_API_BASE}${path}`, {
+        ...options,
+        headers: {
+          ...options.headers,
+          ...(cached ? { 'If-None-Match': cached.etag } : {}),
+          Authorization: `token ${token}`,
+          Accept: 'application/vnd.github.v3+json',
+        },
+      }, method === 'GET' || method === 'HEAD');
+    } catch (error) {
+      if (cached) return cached.data;
+      throw error;
+    }
+    if (response.status === 304 && cached) {
+      return cached.data;
+    }
     if (!response.ok) {
+      const throttled = await isThrottled(response);
       const errorData = await response.json().catch(() => ({ message: response.statusText }));
-      throw new Error(`GitHub API Error: ${errorData.message}`);
+      if (throttled) {
+        const reset = new Date(Date.now() + getRetryDelay(response, 0)).toLocaleTimeString();
+        throw new GitHubApiError(`${errorData.message} (thử lại sau ${reset})`, response.status, 'rate-limit');
+      }
+      const message = response.status === 413 ? 'Tệp vượt quá giới hạn kích thước của GitHub.' : errorData.message;
+      throw new GitHubApiError(message, response.status);
     }
     if (response.status === 204 || response.headers.get('Content-Length') === '0') {
       return null;
     }
-    return response.json();
+    const data = await response.json();
+    const etag = response.headers.get('ETag');
+    if (isCacheable && etag) {
+      offlineCache.set('responses', path, { etag, data });
+    }
+    return data;
+  },
+
+  async graphql(token: string, query: string, variables: Record<string, unknown> = {}, signal?: AbortSignal) {
+    // Only queries go through here, so retrying is safe.
+    const response = await sendWithRetry(GITHUB_GRAPHQL_URL, {
+      method: 'POST',
+      signal,
+      headers: { Authorization: `bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables }),
+    }, true);
+    const result = await response.json().catch(() => ({ message: response.statusText }));
+    if (!response.ok || result.errors?.length) {
+      const kind = result.errors?.[0]?.type === 'RATE_LIMITED' ? 'rate-limit' : undefined;
+      throw new GitHubApiError(result.errors?.[0]?.message ?? result.message, response.status, kind);
+    }
+    return result.data;
+  },
+
+  async createBlob(repo: string, token: string, content: string): Promise<string> {
+    const blob = await this.request(`/${repo}/git/blobs`, token, {
+      method: 'POST',
+      body: JSON.stringify({ content, encoding: 'base64' }),
+    });
+    return blob.sha;
+  },
+
+  async getBlob(repo: string, token: string, sha: string, signal?: AbortSignal): Promise<Blob> {
+    const cached = await offlineCache.get<Blob>('blobs', sha);
+    if (cached) return cached;
+    const content = await this.fetchBlob(repo, token, sha, signal);
+    offlineCache.set('blobs', sha, content);
+    return content;
+  },
+
+  // Like getBlob, but never stores the result, for bulk reads that only keep something derived.
+  async fetchBlob(repo: string, token: string, sha: string, signal?: AbortSignal): Promise<Blob> {
+    const blob = await this.request(`/${repo}/git/blobs/${sha}`, token, { signal });
+    return base64ToBlob(blob.content);
+  },
+
+  // Checks that the token can write to the repo and flags scopes that are
+  // broader than an image library needs. Classic tokens report their scopes in
+  // X-OAuth-Scopes; fine-grained tokens do not, so only the repo permission is checked.
+  // Device flow tokens are requested with "repo" by the app itself, so that is not flagged on them.
+  async checkAccess(repo: string, token: string): Promise<string[]> {
+    const response = await sendWithRetry(`${GITHUB_API_BASE}/${repo}`, {
+      headers: { Authorization: `token ${token}`, Accept: 'application/vnd.github.v3+json' },
+    }, true);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ message: response.statusText }));
+      throw new GitHubApiError(errorData.message, response.status);
+    }
+    const info = await response.json();
+    const warnings: string[] = [];
+    if (!info.permissions?.push) {
+      warnings.push('Token không có quyền ghi (contents: write) vào repo này. Bạn chỉ có thể xem ảnh.');
+    }
+
+    const scopesHeader = response.headers.get('X-OAuth-Scopes');
+    if (scopesHeader !== null) {
+      const scopes = scopesHeader.split(',').map(scope => scope.trim()).filter(Boolean);
+      if (info.private && !scopes.includes('repo')) {
+        warnings.push('Token thiếu quyền "repo" cần cho repo riêng tư.');
+      }
+      const broadScopes = scopes.filter(scope => BROAD_TOKEN_SCOPES.some(prefix => scope.startsWith(prefix)));
+      if (broadScopes.length > 0) {
+        warnings.push(`Token có quyền quá rộng (${broadScopes.join(', ')}). Nên dùng token chỉ có quyền contents.`);
+      } else if (scopes.includes('repo') && !token.startsWith(OAUTH_APP_TOKEN_PREFIX)) {
+        warnings.push('Token classic với quyền "repo" truy cập được mọi repo của bạn. Nên dùng fine-grained token giới hạn cho repo này.');
+      }
+    }
+    return warnings;
+  },
+
+  async createBranch(repo: string, token: string, name: string, fromBranch: string) {
+    const ref = await this.request(`/${repo}/git/ref/heads/${fromBranch}`, token);
+    await this.request(`/${repo}/git/refs`, token, {
+      method: 'POST',
+      body: JSON.stringify({ ref: `refs/heads/${name}`, sha: ref.object.sha }),
+    });
+  },
+
+  async deleteBranch(repo: string, token: string, name: string) {
+    await this.request(`/${repo}/git/refs/heads/${name}`, token, { method: 'DELETE' });
+  },
+
+  createPullRequest(repo: string, token: string, pullRequest: { title: string; head: string; base: string; body: string }) {
+    return this.request(`/${repo}/pulls`, token, { method: 'POST', body: JSON.stringify(pullRequest) });
+  },
+
+  async listAssetPullRequests(repo: string, token: string, base: string): Promise<any[]> {
+    const pulls = await this.request(`/${repo}/pulls?state=open&base=${encodeURIComponent(base)}&per_page=100`, token);
+    return pulls.filter((pull: any) => pull.head.ref.startsWith(REVIEW_BRANCH_PREFIX));
+  },
+
+  listPullRequestFiles(repo: string, token: string, number: number) {
+    return this.request(`/${repo}/pulls/${number}/files?per_page=100`, token);
+  },
+
+  mergePullRequest(repo: string, token: string, number: number) {
+    return this.request(`/${repo}/pulls/${number}/merge`, token, { method: 'PUT', body: JSON.stringify({ merge_method: 'squash' }) });
+  },
+
+  listCommits(repo: string, token: string, branch: string, path?: string, perPage = TRASH_COMMIT_LIMIT) {
+    const pathQuery = path ? `&path=${encodeURIComponent(path)}` : '';
+    return this.request(`/${repo}/commits?sha=${encodeURIComponent(branch)}&per_page=${perPage}${pathQuery}`, token);
+  },
+
+  getCommit(repo: string, token: string, sha: string) {
+    return this.request(`/${repo}/commits/${sha}`, token);
+  },
+
+  // Follows the Link header through every page of a list endpoint. Not cached, since a
+  // 304 from the ETag cache would not carry the links to the other pages.
+  async requestAllPages(path: string, token: string): Promise<any[]> {
+    const items: any[] = [];
+    let url: string | null = `${GITHUB_API_BASE}${path}`;
+    while (url) {
+      const response = await sendWithRetry(url, {
+        headers: { Authorization: `token ${token}`, Accept: 'application/vnd.github.v3+json' },
+      }, true);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ message: response.statusText }));
+        throw new GitHubApiError(errorData.message, response.status);
+      }
+      items.push(...await response.json());
+      url = response.headers.get('Link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1] ?? null;
+    }
+    return items;
+  },
+
+  async listBranches(repo: string, token: string): Promise<string[]> {
+    const branches = await this.requestAllPages(`/${repo}/branches?per_page=100`, token);
+    return branches.map((branch: any) => branch.name);
+  },
+
+  async getDefaultBranch(repo: string, token: string): Promise<string> {
+    const info = await this.request(`/${repo}`, token);
+    return info.default_branch;
+  },
+
+  async getHead(repo: string, token: string, branch: string) {
+    const ref = await this.request(`/${repo}/git/ref/heads/${branch}`, token);
+    const commitSha: string = ref.object.sha;
+    const commit = await this.request(`/${repo}/git/commits/${commitSha}`, token);
+    const tree = await this.request(`/${repo}/git/trees/${commit.tree.sha}?recursive=1`, token);
+    if (tree.truncated) {
+      throw new Error('Repo quá lớn, không thể đọc toàn bộ cây thư mục.');
+    }
+    return { commitSha, treeSha: commit.tree.sha as string, tree: tree.tree as GitTreeEntry[] };
+  },
+
+  // Builds a new tree on top of the branch head and commits it in a single step.
+  // `buildChanges` receives the full recursive tree and returns (or resolves to) the
+  // entries to add/replace (or delete with `sha: null`). If the branch moves while we work,
+  // the changes are rebuilt against the new head and retried.
+  async commitTreeChanges(
+    repo: string,
+    token: string,
+    branch: string,
+    message: string,
+    buildChanges: (tree: GitTreeEntry[]) => GitTreeEntry[] | Promise<GitTreeEntry[]>,
+    onProgress?: (progress: CommitProgress) => void,
+  ) {
+    for (let attempt = 1; ; attempt++) {
+      onProgress?.({ stage: 'reading', attempt });
+      const head = await this.getHead(repo, token, branch);
+      const changes = await buildChanges(head.tree);
+      if (changes.length === 0) return null;
+
+      onProgress?.({ stage: 'tree', attempt });
+      const newTree = await this.request(`/${repo}/git/trees`, token, {
+        method: 'POST',
+        body: JSON.stringify({
+          base_tree: head.treeSha,
+          tree: changes.map(({ path, mode, type, sha }) => ({ path, mode, type, sha })),
+        }),
+      });
+      onProgress?.({ stage: 'commit', attempt });
+      const commit = await this.request(`/${repo}/git/commits`, token, {
+        method: 'POST',
+        body: JSON.stringify({ message, tree: newTree.sha, parents: [head.commitSha] }),
+      });
+
+      onProgress?.({ stage: 'ref', attempt });
+      try {
+        await this.request(`/${repo}/git/refs/heads/${branch}`, token, {
+          method: 'PATCH',
+          body: JSON.stringify({ sha: commit.sha, force: false }),
+        });
+        return commit;
+      } catch (error) {
+        // 422 means the ref is no longer a fast-forward of our parent.
+        if (!(error instanceof GitHubApiError) || error.status !== 422) throw error;
+        if (attempt >= MAX_COMMIT_ATTEMPTS) {
+          throw new Error(`Xung đột: nhánh "${branch}" đã thay đổi trong lúc cập nhật. Vui lòng thử lại.`);
+        }
+      }
+    }
   },
 };
 
-// --- React Components ---
+// --- Git LFS ---
+const LFS_POINTER_VERSION = 'https://git-lfs.github.com/spec/v1';
+
+// Converts a .gitattributes / glob pattern to a RegExp. Patterns without a
+// slash match the file name at any depth, like git does.
+const globToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .replace(/^\//, '')
+    .split(/(\*\*\/?|\*|\?)/)
+    .map(part => {
+      if (part === '**/' || part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(pattern.includes('/') ? `^${source}$` : `(^|/)${source}$`);
+};
+
+const parseLfsPatterns = (gitattributes: string): RegExp[] => {
+  return gitattributes
+    .split('\n')
+    .map(line => line.trim().split(/\s+/))
+    .filter(([pattern, ...attributes]) => pattern && !pattern.startsWith('#') && attributes.includes('filter=lfs'))
+    .map(([pattern]) => globToRegExp(pattern));
+};
+
+const isLfsPath = (path: string, lfsPatterns: RegExp[]) => lfsPatterns.some(pattern => pattern.test(path));
+
+const sha256Hex = async (buffer: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const lfsApi = {
+  async getPatterns(repo: string, token: string, branch: string): Promise<RegExp[]> {
+    try {
+      const file = await githubApi.request(contentsPath(repo, '.gitattributes', branch), token);
+      return parseLfsPatterns(atob(file.content.replace(/\n/g, '')));
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) return [];
+      throw error;
+    }
+  },
+
+  // Uploads the file to LFS storage through the batch API and returns the
+  // pointer file that should be committed in its place.
+  async upload(repo: string, token: string, file: Blob): Promise<string> {
+    const buffer = await file.arrayBuffer();
+    const oid = await sha256Hex(buffer);
+    let response: Response;
+    try {
+      response = await fetch(`${GITHUB_LFS_BASE}/${repo}.git/info/lfs/objects/batch`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${btoa(`x-access-token:${token}`)}`,
+          Accept: 'application/vnd.git-lfs+json',
+          'Content-Type': 'application/vnd.git-lfs+json',
+        },
+        body: JSON.stringify({ operation: 'upload', transfers: ['basic'], objects: [{ oid, size: file.size }] }),
+      });
+    } catch (error) {
+      // A network-level failure here is the missing CORS headers, not a connectivity problem.
+      if (error instanceof TypeError && navigator.onLine) {
+        throw new Error('Git LFS Error: trình duyệt không gọi trực tiếp được máy chủ LFS của GitHub. Hãy cấu hình GITHUB_LFS_BASE trỏ tới một CORS proxy.');
+      }
+      throw error;
+    }
+    if (!response.ok) {
+      throw new Error(`Git LFS Error: ${response.status} ${response.statusText}`);
+    }
+    const batch = await response.json();
+    const object = batch.objects[0];
+    if (object.error) {
+      throw new Error(`Git LFS Error: ${object.error.message}`);
+    }
+
+    // No actions means the server already has this object.
+    const { upload, verify } = object.actions ?? {};
+    if (upload) {
+      const uploadResponse = await fetch(upload.href, { method: 'PUT', headers: upload.header, body: buffer });
+      if (!uploadResponse.ok) {
+        throw new Error(`Git LFS Error: tải lên thất bại (${uploadResponse.status}).`);
+      }
+    }
+    if (verify) {
+      const verifyResponse = await fetch(verify.href, {
+        method: 'POST',
+        headers: { ...verify.header, 'Content-Type': 'application/vnd.git-lfs+json' },
+        body: JSON.stringify({ oid, size: file.size }),
+      });
+      if (!verifyResponse.ok) {
+        throw new Error(`Git LFS Error: xác minh thất bại (${verifyResponse.status}).`);
+      }
+    }
+
+    return `version ${LFS_POINTER_VERSION}\noid sha256:${oid}\nsize ${file.size}\n`;
+  },
+
+  // Fetches an object from the media host. A failed response would otherwise be read as image data.
+  async download(url: string): Promise<Blob> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Git LFS Error: tải xuống thất bại (${response.status}).`);
+    }
+    return response.blob();
+  },
+
+  // raw.githubusercontent.com serves the pointer file; the media host serves the object.
+  mediaUrl(repo: string, branch: string, path: string) {
+    return `https://media.githubusercontent.com/media/${repo}/${branch}/${path.split('/').map(encodeURIComponent).join('/')}`;
+  },
+};
+
+// --- Image Manifest ---
+// Tags, captions and alt text live in an `index.json` next to the images,
+// keyed by file name.
+const MANIFEST_FILE = 'index.json';
+
+type ImageMetadata = { tags: string[]; caption: string; alt: string };
+type FolderManifest = Record<string, ImageMetadata>;
+
+const EMPTY_METADATA: ImageMetadata = { tags: [], caption: '', alt: '' };
+
+const manifestPath = (folder: string) => joinPath(folder, MANIFEST_FILE);
+
+// The manifest may be edited by hand, so fill in anything missing.
+const normalizeMetadata = (value: any): ImageMetadata => ({
+  tags: Array.isArray(value?.tags) ? value.tags.map(String) : [],
+  caption: typeof value?.caption === 'string' ? value.caption : '',
+  alt: typeof value?.alt === 'string' ? value.alt : '',
+});
+
+const readManifest = async (repo: string, token: string, sha: string): Promise<FolderManifest> => {
+  const blob = await githubApi.getBlob(repo, token, sha);
+  const parsed = JSON.parse(await blob.text());
+  return Object.fromEntries(Object.entries(parsed).map(([name, value]) => [name, normalizeMetadata(value)]));
+};
+
+const serializeManifest = (manifest: FolderManifest): string => {
+  const entries = Object.entries(manifest)
+    .filter(([, metadata]) => metadata.tags.length > 0 || metadata.caption || metadata.alt)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `${JSON.stringify(Object.fromEntries(entries), null, 2)}\n`;
+};
+
+// Three-way merge of one image's metadata against what is in the repo now:
+// fields left untouched keep the repo value and tags are merged as a set.
+const mergeMetadata = (base: ImageMetadata, ours: ImageMetadata, theirs: ImageMetadata): ImageMetadata => {
+  const added = ours.tags.filter(tag => !base.tags.includes(tag));
+  const removed = new Set(base.tags.filter(tag => !ours.tags.includes(tag)));
+  return {
+    tags: [...new Set([...theirs.tags, ...added])].filter(tag => !removed.has(tag)),
+    caption: ours.caption !== base.caption ? ours.caption : theirs.caption,
+    alt: ours.alt !== base.alt ? ours.alt : theirs.alt,
+  };
+};
+
+const readFolderManifests = async (repo: string, token: string, tree: GitTreeEntry[], folders: string[]) => {
+  const manifests = new Map<string, FolderManifest>();
+  for (const folder of folders) {
+    const existing = tree.find(entry => entry.path === manifestPath(folder));
+    manifests.set(folder, existing ? await readManifest(repo, token, existing.sha!) : {});
+  }
+  return manifests;
+};
+
+const writeFolderManifests = async (repo: string, token: string, manifests: Map<string, FolderManifest>, folders: Iterable<string>) => {
+  const changes: GitTreeEntry[] = [];
+  for (const folder of folders) {
+    const content = await fileToBase64(new Blob([serializeManifest(manifests.get(folder)!)], { type: 'application/json' }));
+    changes.push({ path: manifestPath(folder), mode: '100644', type: 'blob', sha: await githubApi.createBlob(repo, token, content) });
+  }
+  return changes;
+};
+
+// Carries metadata along when images are moved (`to` set) or deleted (`to` null), so a file
+// that later takes the same name does not inherit a stale entry. Metadata of deleted images
+// is collected in `dropped` so an undo can put it back. Returns the manifest changes.
+const buildManifestMoves = async (
+  repo: string,
+  token: string,
+  tree: GitTreeEntry[],
+  moves: { from: string; to: string | null }[],
+  dropped?: Map<string, ImageMetadata>,
+): Promise<GitTreeEntry[]> => {
+  const folders = [...new Set(moves.flatMap(({ from, to }) => to === null ? [parentFolder(from)] : [parentFolder(from), parentFolder(to)]))];
+  const manifests = await readFolderManifests(repo, token, tree, folders);
+  const changed = new Set<string>();
+  for (const { from, to } of moves) {
+    const source = manifests.get(parentFolder(from))!;
+    const metadata = source[baseName(from)];
+    if (metadata) {
+      delete source[baseName(from)];
+      changed.add(parentFolder(from));
+    }
+    if (to === null) {
+      if (metadata) dropped?.set(from, metadata);
+      continue;
+    }
+    const target = manifests.get(parentFolder(to))!;
+    if (metadata) {
+      target[baseName(to)] = metadata;
+      changed.add(parentFolder(to));
+    } else if (target[baseName(to)]) {
+      delete target[baseName(to)];
+      changed.add(parentFolder(to));
+    }
+  }
+  return writeFolderManifests(repo, token, manifests, changed);
+};
+
+// Puts metadata of restored images back into their folders' manifests. Entries that were
+// written again in the meantime win over the restored ones.
+const buildManifestRestores = async (repo: string, token: string, tree: GitTreeEntry[], metadata: Map<string, ImageMetadata>): Promise<GitTreeEntry[]> => {
+  const manifests = await readFolderManifests(repo, token, tree, [...new Set([...metadata.keys()].map(parentFolder))]);
+  const changed = new Set<string>();
+  for (const [path, restored] of metadata) {
+    const manifest = manifests.get(parentFolder(path))!;
+    if (manifest[baseName(path)]) continue;
+    manifest[baseName(path)] = restored;
+    changed.add(parentFolder(path));
+  }
+  return writeFolderManifests(repo, token, manifests, changed);
+};
+
+// --- Metadata Loader ---
+// Fetches the last commit date of many paths at once by aliasing one
+// `history(first: 1, path: ...)` field per path in a single GraphQL query.
+const fetchLastCommitDates = async (repo: string, token: string, branch: string, paths: string[], signal?: AbortSignal): Promise<Map<string, string>> => {
+  const [owner, name] = repo.split('/');
+  const dates = new Map<string, string>();
+  const batches: string[][] = [];
+  for (let i = 0; i < paths.length; i += HISTORY_BATCH_SIZE) {
+    batches.push(paths.slice(i, i + HISTORY_BATCH_SIZE));
+  }
+
+  await runWithConcurrency(batches, HISTORY_CONCURRENCY, async (batch) => {
+    signal?.throwIfAborted();
+    const fields = batch
+      .map((path, i) => `f${i}: history(first: 1, path: ${JSON.stringify(path)}) { nodes { authoredDate } }`)
+      .join('\n');
+    const data = await githubApi.graphql(
+      token,
+      `query($owner: String!, $name: String!, $ref: String!) {
+        repository(owner: $owner, name: $name) {
+          ref(qualifiedName: $ref) { target { ... on Commit { ${fields} } } }
+        }
+      }`,
+      { owner, name, ref: `refs/heads/${branch}` },
+      signal,
+    );
+    const target = data.repository.ref.target;
+    batch.forEach((path, i) => {
+      const date = target[`f${i}`]?.nodes?.[0]?.authoredDate;
+      if (date) dates.set(path, date);
+    });
+  });
+  return dates;
+};
+
+// Folder listings with dates, kept for the session so switching back to a folder is
+// instant. They are also persisted to IndexedDB to be shown before revalidating.
+const folderImageCache = new Map<string, any[]>();
+
+const loadFolderImages = async (repo: string, token: string, branch: string, folderName: string): Promise<any[]> => {
+  const contents = await githubApi.request(contentsPath(repo, folderName, branch), token);
+  const imageData = contents.filter((item: any) => item.type === 'file' && IMAGE_FILE_PATTERN.test(item.name));
+
+  const manifestItem = contents.find((item: any) => item.type === 'file' && item.name === MANIFEST_FILE);
+  const [thumbnailUrls, commitDates, manifest] = await Promise.all([
+    (async () => {
+      const urls = new Map<string, string>();
+      if (contents.some((item: any) => item.type === 'dir' && item.name === THUMBNAIL_DIR)) {
+        const thumbnails = await githubApi.request(contentsPath(repo, `${folderName}/${THUMBNAIL_DIR}`, branch), token);
+        for (const thumbnail of thumbnails) {
+          urls.set(thumbnail.path, thumbnail.download_url);
+        }
+      }
+      return urls;
+    })(),
+    fetchLastCommitDates(repo, token, branch, imageData.map((image: any) => image.path)).catch(error => {
+      console.error(`Could not fetch commit dates for ${folderName}`, error);
+      return new Map<string, string>();
+    }),
+    manifestItem
+      ? readManifest(repo, token, manifestItem.sha).catch(error => {
+        console.error(`Could not read ${manifestItem.path}`, error);
+        return {} as FolderManifest;
+      })
+      : {} as FolderManifest,
+  ]);
+
+  const images = imageData.map((image: any) => ({
+    ...image,
+    thumbnail_url: thumbnailUrls.get(thumbnailPath(image.path)),
+    commitDate: commitDates.get(image.path) ?? new Date(0).toISOString(),
+    metadata: manifest[image.name],
+  }));
+  folderImageCache.set(`${libraryKey(repo, branch)}:${folderName}`, images);
+  offlineCache.set('listings', `${libraryKey(repo, branch)}:${folderName}`, images);
+  return images;
+};
+
+// Drops the cached listings of the given folders and everything nested below them.
+const invalidateFolderImages = (library: string, ...folderNames: string[]) => {
+  for (const key of [...folderImageCache.keys()]) {
+    if (folderNames.some(folderName => isWithinFolder(key, `${library}:${folderName}`))) {
+      folderImageCache.delete(key);
+    }
+  }
+};
+
+type FolderTree = Record<string, string[]>;
+
+// Removes `path` from its parent's children and forgets every loaded folder below it.
+const removeFolderFromTree = (tree: FolderTree, path: string): FolderTree => {
+  const parent = parentFolder(path);
+  const next: FolderTree = {};
+  for (const [key, children] of Object.entries(tree)) {
+    if (key !== '' && isWithinFolder(key, path)) continue;
+    next[key] = key === parent ? children.filter(child => child !== path) : children;
+  }
+  return next;
+};
+
+// --- Search ---
+// Every field is kept as the raw string from the URL / input; sizes are in KB.
+type SearchQuery = {
+  q: string;
+  ext: string;
+  minSize: string;
+  maxSize: string;
+  minWidth: string;
+  maxWidth: string;
+  minHeight: string;
+  maxHeight: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_SEARCH: SearchQuery = {
+  q: '', ext: '', minSize: '', maxSize: '', minWidth: '', maxWidth: '', minHeight: '', maxHeight: '', from: '', to: '',
+};
+
+const readSearchQuery = (search: string): SearchQuery => {
+  const params = new URLSearchParams(search);
+  const query = { ...EMPTY_SEARCH };
+  for (const key of Object.keys(query) as (keyof SearchQuery)[]) {
+    query[key] = params.get(key) ?? '';
+  }
+  return query;
+};
+
+// Mirrors the query into the address bar so a search can be shared as a link.
+const writeSearchQuery = (query: SearchQuery) => {
+  const params = new URLSearchParams(window.location.search);
+  for (const [key, value] of Object.entries(query)) {
+    if (value) params.set(key, value);
+    else params.delete(key);
+  }
+  const search = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+};
+
+const isSearchActive = (query: SearchQuery) => Object.values(query).some(value => value.trim() !== '');
+
+const rawUrl = (repo: string, branch: string, path: string) =>
+  `https://raw.githubusercontent.com/${repo}/${branch}/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+// Substring match on the path, or a glob when the query contains wildcards.
+const matchesName = (path: string, q: string) => {
+  const term = q.trim().toLowerCase();
+  if (!term) return true;
+  if (/[*?]/.test(term)) return new RegExp(globToRegExp(term).source, 'i').test(path);
+  return path.toLowerCase().includes(term);
+};
+
+const inRange = (value: number, min: string, max: string, unit = 1) =>
+  (min === '' || value >= Number(min) * unit) && (max === '' || value <= Number(max) * unit);
+
+// Blob SHAs are content addresses, so dimensions never go stale.
+const imageDimensionCache = new Map<string, { width: number; height: number }>();
+
+const readImageDimensions = async (repo: string, token: string, sha: string, signal?: AbortSignal) => {
+  const cached = imageDimensionCache.get(sha);
+  if (cached) return cached;
+  const bitmap = await createImageBitmap(await githubApi.getBlob(repo, token, sha, signal));
+  const dimensions = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  imageDimensionCache.set(sha, dimensions);
+  return dimensions;
+};
+
+// raw.githubusercontent.com needs a token for private repos. The contents API hands out
+// download URLs that carry one, so take those from the listing of each result folder.
+const fetchDownloadUrls = async (repo: string, token: string, branch: string, folders: string[], signal: AbortSignal): Promise<Map<string, string>> => {
+  const urls = new Map<string, string>();
+  await runWithConcurrency(folders, UPLOAD_CONCURRENCY, async (folder) => {
+    if (signal.aborted) return;
+    try {
+      const contents = await githubApi.request(contentsPath(repo, folder, branch), token, { signal });
+      for (const item of contents) {
+        if (item.type === 'file' && item.download_url) urls.set(item.path, item.download_url);
+      }
+    } catch (error) {
+      console.error(`Could not list ${folder}`, error);
+    }
+  });
+  return urls;
+};
+
+// Reading dimensions downloads every candidate, so the other filters must narrow it down first.
+const MAX_DIMENSION_CANDIDATES = 300;
+
+// Searches every image on the branch using the recursive tree. Name, extension and
+// size come straight from the tree; dates and dimensions are only fetched when filtered on.
+// Aborting `signal` stops any further downloads of a search that was superseded.
+const searchImages = async (repo: string, token: string, branch: string, query: SearchQuery, lfsPatterns: RegExp[], signal: AbortSignal): Promise<any[]> => {
+  const { tree } = await githubApi.getHead(repo, token, branch);
+  signal.throwIfAborted();
+  const thumbnails = new Set(tree.filter(entry => entry.path.split('/').includes(THUMBNAIL_DIR)).map(entry => entry.path));
+  let candidates = tree.filter(entry =>
+    entry.type === 'blob'
+    && isAssetPath(entry.path)
+    && matchesName(entry.path, query.q)
+    && (!query.ext || entry.path.toLowerCase().endsWith(`.${query.ext}`) || (query.ext === 'jpg' && /\.jpeg$/i.test(entry.path)))
+    && inRange(entry.size ?? 0, query.minSize, query.maxSize, 1024));
+
+  let dates = new Map<string, string>();
+  if (query.from || query.to) {
+    dates = await fetchLastCommitDates(repo, token, branch, candidates.map(entry => entry.path), signal);
+    const from = query.from ? new Date(query.from).getTime() : -Infinity;
+    // `to` is a calendar day, so include the whole of it.
+    const to = query.to ? new Date(query.to).getTime() + 24 * 60 * 60 * 1000 : Infinity;
+    candidates = candidates.filter(entry => {
+      const time = new Date(dates.get(entry.path) ?? 0).getTime();
+      return time >= from && time < to;
+    });
+  }
+
+  if (query.minWidth || query.maxWidth || query.minHeight || query.maxHeight) {
+    if (candidates.length > MAX_DIMENSION_CANDIDATES) {
+      throw new Error(`Có ${candidates.length} ảnh cần đọc kích thước (tối đa ${MAX_DIMENSION_CANDIDATES}). Hãy thu hẹp bằng tên, thư mục, định dạng, dung lượng hoặc ngày trước.`);
+    }
+    const matching = new Set<string>();
+    await runWithConcurrency(candidates, UPLOAD_CONCURRENCY, async (entry) => {
+      if (signal.aborted || isLfsPath(entry.path, lfsPatterns)) return;
+      try {
+        const { width, height } = await readImageDimensions(repo, token, entry.sha!, signal);
+        if (inRange(width, query.minWidth, query.maxWidth) && inRange(height, query.minHeight, query.maxHeight)) {
+          matching.add(entry.path);
+        }
+      } catch (error) {
+        console.error(`Could not read dimensions of ${entry.path}`, error);
+      }
+    });
+    signal.throwIfAborted();
+    candidates = candidates.filter(entry => matching.has(entry.path));
+  }
+
+  const folders = [...new Set(candidates.map(entry => parentFolder(entry.path)))];
+  const { private: isPrivate } = await githubApi.request(`/${repo}`, token);
+  const thumbnailFolders = new Set([...thumbnails].map(parentFolder));
+  const privateUrls = isPrivate
+    ? await fetchDownloadUrls(repo, token, branch, [
+      ...folders,
+      ...folders.map(folder => joinPath(folder, THUMBNAIL_DIR)).filter(folder => thumbnailFolders.has(folder)),
+    ], signal)
+    : new Map<string, string>();
+  const downloadUrl = (path: string) => privateUrls.get(path) ?? rawUrl(repo, branch, path);
+
+  const manifests = new Map<string, FolderManifest>();
+  await Promise.all(folders.map(async folder => {
+    const manifest = tree.find(entry => entry.path === manifestPath(folder));
+    if (!manifest) return;
+    try {
+      manifests.set(folder, await readManifest(repo, token, manifest.sha!));
+    } catch (error) {
+      console.error(`Could not read ${manifest.path}`, error);
+    }
+  }));
+
+  return candidates.map(entry => ({
+    name: baseName(entry.path),
+    path: entry.path,
+    sha: entry.sha,
+    size: entry.size,
+    download_url: isLfsPath(entry.path, lfsPatterns) ? lfsApi.mediaUrl(repo, branch, entry.path) : downloadUrl(entry.path),
+    thumbnail_url: thumbnails.has(thumbnailPath(entry.path)) ? downloadUrl(thumbnailPath(entry.path)) : undefined,
+    commitDate: dates.get(entry.path) ?? new Date(0).toISOString(),
+    metadata: manifests.get(parentFolder(entry.path))?.[baseName(entry.path)],
+  }));
+};
+
+// --- Share Links ---
+type ShareUrlStyle = 'raw' | 'jsdelivr' | 'pages' | 'permalink';
+type ShareFormat = 'url' | 'markdown' | 'html' | 'bbcode' | 'css';
+
+const SHARE_URL_STYLES: { style: ShareUrlStyle; label: string }[] = [
+  { style: 'raw', label: 'Raw GitHub' },
+  { style: 'jsdelivr', label: 'jsDelivr CDN' },
+  { style: 'pages', label: 'GitHub Pages' },
+  { style: 'permalink', label: 'Cố định theo commit' },
+];
+
+const SHARE_FORMATS: { format: ShareFormat; label: string }[] = [
+  { format: 'url', label: 'URL' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'bbcode', label: 'BBCode' },
+  { format: 'css', label: 'CSS' },
+];
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+// `pagesUrl` is the site root reported by the Pages API; `commitSha` pins the permalink.
+// Only the raw style has an LFS-aware host; the others serve the pointer file for LFS images.
+const buildShareUrl = (style: ShareUrlStyle, library: Library, path: string, pagesUrl: string | null, commitSha: string | null, isLfs: boolean): string | null => {
+  switch (style) {
+    case 'raw':
+      return isLfs ? lfsApi.mediaUrl(library.repo, library.branch, path) : rawUrl(library.repo, library.branch, path);
+    case 'jsdelivr':
+      return `https://cdn.jsdelivr.net/gh/${library.repo}@${library.branch}/${encodePath(path)}`;
+    case 'pages':
+      return pagesUrl ? `${pagesUrl.replace(/\/$/, '')}/${encodePath(path)}` : null;
+    case 'permalink':
+      return commitSha ? rawUrl(library.repo, commitSha, path) : null;
+  }
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const formatShareSnippet = (format: ShareFormat, url: string, alt: string, size: { width: number; height: number } | null): string => {
+  switch (format) {
+    case 'url':
+      return url;
+    case 'markdown':
+      return `![${alt.replace(/[[\]]/g, '')}](${url})`;
+    case 'html':
+      return `<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}"${size ? ` width="${size.width}" height="${size.height}"` : ''}>`;
+    case 'bbcode':
+      return `[img]${url}[/img]`;
+    case 'css':
+      return `url("${url}")`;
+  }
+};
+
+// --- Similar Images ---
+type HashedImage = { path: string; sha: string; hash: string };
+
+// Perceptual hashes only depend on the content, so they are cached by blob SHA. The
+// originals are not: hashing the whole library would otherwise copy it into IndexedDB.
+const computeImageHash = async (repo: string, token: string, sha: string): Promise<string> => {
+  const cached = await offlineCache.get<string>('hashes', sha);
+  if (cached) return cached;
+  const hash = await hashInWorker(await githubApi.fetchBlob(repo, token, sha));
+  offlineCache.set('hashes', sha, hash);
+  return hash;
+};
+
+const popcount = (n: number) => {
+  n -= (n >>> 1) & 0x55555555;
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+const hashWords = (hash: string) => [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8), 16)];
+
+const hashDistance = (a: string, b: string) => {
+  const [x, y] = [hashWords(a), hashWords(b)];
+  return popcount(x[0] ^ y[0]) + popcount(x[1] ^ y[1]);
+};
+
+// Groups images whose hashes differ by at most `threshold` bits. Grouping is
+// transitive (union-find), so a chain of close images ends up in one group and
+// members can be further than `threshold` from each other; only the ones close
+// to the kept image should be removed.
+const groupSimilarImages = (images: HashedImage[], threshold: number): HashedImage[][] => {
+  const words = images.map(image => hashWords(image.hash));
+  const parent = images.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      const distance = popcount(words[i][0] ^ words[j][0]) + popcount(words[i][1] ^ words[j][1]);
+      if (distance <= threshold) parent[find(j)] = find(i);
+    }
+  }
+  const groups = new Map<number, HashedImage[]>();
+  images.forEach((image, i) => groups.set(find(i), [...(groups.get(find(i)) ?? []), image]));
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => group.sort((a, b) => a.path.localeCompare(b.path)));
+};
+
+// --- Texture Atlas ---
+type AtlasFrame = { name: string; x: number; y: number; width: number; height: number };
+
+const nextPowerOfTwo = (n: number) => 2 ** Math.ceil(Math.log2(Math.max(1, n)));
+
+// First-fit decreasing-height shelf packing. The sheet width is chosen from the total
+// area so the result comes out roughly square; `padding` is kept around every frame.
+const packAtlas = (sizes: { name: string; width: number; height: number }[], padding: number, powerOfTwo: boolean) => {
+  const sorted = [...sizes].sort((a, b) => b.height - a.height || b.width - a.width);
+  const area = sorted.reduce((sum, size) => sum + (size.width + padding) * (size.height + padding), 0);
+  const widest = Math.max(...sorted.map(size => size.width)) + padding * 2;
+  let width = Math.max(widest, Math.ceil(Math.sqrt(area)));
+  if (powerOfTwo) width = nextPowerOfTwo(width);
+
+  const shelves: { y: number; height: number; x: number }[] = [];
+  const frames: AtlasFrame[] = [];
+  let bottom = padding;
+  for (const size of sorted) {
+    let shelf = shelves.find(candidate => candidate.height >= size.height && candidate.x + size.width + padding <= width);
+    if (!shelf) {
+      shelf = { y: bottom, height: size.height, x: padding };
+      shelves.push(shelf);
+      bottom += size.height + padding;
+    }
+    frames.push({ name: size.name, x: shelf.x, y: shelf.y, width: size.width, height: size.height });
+    shelf.x += size.width + padding;
+  }
+
+  const height = powerOfTwo ? nextPowerOfTwo(bottom) : bottom;
+  if (width > MAX_ATLAS_SIZE || height > MAX_ATLAS_SIZE) {
+    throw new Error(`Atlas quá lớn (${width}×${height}), tối đa ${MAX_ATLAS_SIZE}×${MAX_ATLAS_SIZE}.`);
+  }
+  return { width, height, frames };
+};
+
+// A relative path inside the repo: no leading slash, empty, "." or ".." segments.
+const isValidRepoPath = (path: string) =>
+  path.split('/').every(segment => segment.trim() !== '' && segment !== '.' && segment !== '..');
+
+// TexturePacker "JSON (Hash)" format, which most engines can import.
+const buildAtlasFrameMap = (frames: AtlasFrame[], imageName: string, size: { width: number; height: number }, format: string) => ({
+  frames: Object.fromEntries(frames.map(frame => [frame.name, {
+    frame: { x: frame.x, y: frame.y, w: frame.width, h: frame.height },
+    rotated: false,
+    trimmed: false,
+    spriteSourceSize: { x: 0, y: 0, w: frame.width, h: frame.height },
+    sourceSize: { w: frame.width, h: frame.height },
+  }])),
+  meta: {
+    app: 'Lưu Ảnh',
+    version: '1.0',
+    image: imageName,
+    format,
+    size: { w: size.width, h: size.height },
+    scale: '1',
+  },
+});
+
+// --- ZIP Export ---
+// Minimal ZIP writer. Images are already compressed, so entries are stored as-is.
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createZip = (files: { name: string; data: Uint8Array }[]): Blob => {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  const parts: BlobPart[] = [];
+  const central: BlobPart[] = [];
+  let offset = 0;
+  let centralSize = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(local.buffer, name, file.data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(12, dosTime, true);
+    header.setUint16(14, dosDate, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, file.data.length, true);
+    header.setUint32(24, file.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(header.buffer, name);
+
+    offset += 30 + name.length + file.data.length;
+    centralSize += 46 + name.length;
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+// --- Review Mode ---
+// In review mode changes are committed to a fresh `assets/...` branch and a
+// pull request against the library branch is opened instead.
+const reviewBranchName = (message: string) => {
+  const slug = sanitizeFolderName(message.replace(/\s+/g, '-')).slice(0, 40);
+  return `${REVIEW_BRANCH_PREFIX}${Date.now().toString(36)}-${slug}`;
+};
+
+const isAssetPath = (path: string) => IMAGE_FILE_PATTERN.test(path) && !path.split('/').includes(THUMBNAIL_DIR);
+
+const blobUrl = (repo: string, branch: string, path: string) =>
+  `https://github.com/${repo}/blob/${encodeURIComponent(branch)}/${path.split('/').map(encodeURIComponent).join('/')}?raw=true`;
+
+const buildPullRequestBody = (repo: string, head: string, base: string, changes: GitTreeEntry[]): string => {
+  const added = changes.filter(change => change.sha && isAssetPath(change.path));
+  const removed = changes.filter(change => !change.sha && isAssetPath(change.path));
+  const sections: string[] = [];
+  if (added.length > 0) {
+    sections.push(`### Ảnh thêm mới (${added.length})\n\n${added.map(change => `- \`${change.path}\`<br>![${baseName(change.path)}](${blobUrl(repo, head, change.path)})`).join('\n')}`);
+  }
+  if (removed.length > 0) {
+    sections.push(`### Ảnh bị xóa (${removed.length})\n\n${removed.map(change => `- \`${change.path}\`<br>![${baseName(change.path)}](${blobUrl(repo, base, change.path)})`).join('\n')}`);
+  }
+  return sections.join('\n\n') || 'Không có thay đổi ảnh.';
+};
+
+// --- Trash ---
+type TrashEntry = {
+  path: string;
+  commitSha: string;
+  parentSha: string;
+  message: string;
+  author: string;
+  date: string;
+};
+
+// Walks the most recent commits on the branch and collects the images they removed.
+// Paths that were deleted more than once are only listed for their latest deletion.
+const fetchDeletedFiles = async (repo: string, token: string, branch: string): Promise<TrashEntry[]> => {
+  const commits = await githubApi.listCommits(repo, token, branch);
+  const details: any[] = new Array(commits.length);
+  await runWithConcurrency(commits.map((commit: any, index: number) => ({ commit, index })), UPLOAD_CONCURRENCY, async ({ commit, index }) => {
+    details[index] = commit.parents.length === 1 ? await githubApi.getCommit(repo, token, commit.sha) : null;
+  });
+
+  const seen = new Set<string>();
+  const entries: TrashEntry[] = [];
+  for (const commit of details) {
+    if (!commit) continue;
+    for (const file of commit.files ?? []) {
+      if (file.status !== 'removed' || !isAssetPath(file.filename) || seen.has(file.filename)) continue;
+      seen.add(file.filename);
+      entries.push({
+        path: file.filename,
+        commitSha: commit.sha,
+        parentSha: commit.parents[0].sha,
+        message: commit.commit.message.split('\n')[0],
+        author: commit.commit.author?.name ?? commit.author?.login ?? '',
+        date: commit.commit.author?.date ?? '',
+      });
+    }
+  }
+  return entries;
+};
+
+// --- Libraries ---
+// A library is one repo+branch pair; several can be saved and switched between.
+type Library = { repo: string; branch: string };
+
+const LIBRARIES_KEY = 'github_libraries';
+
+const libraryKey = (repo: string, branch: string) => `${repo}@${branch}`;
+
+const contentsPath = (repo: string, path: string, branch: string) => `/${repo}/contents/${path}?ref=${encodeURIComponent(branch)}`;
+
+const loadLibraries = (): Library[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LIBRARIES_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveLibraries = (libraries: Library[]) => {
+  localStorage.setItem(LIBRARIES_KEY, JSON.stringify(libraries));
+};
+
+// Moves every entry under `fromPrefix` to `toPrefix`, reusing the existing blob SHAs.
+const buildMoveChanges = (tree: GitTreeEntry[], moves: { from: string; to: string }[]): GitTreeEntry[] => {
+  const existing = new Set(tree.filter(entry => entry.type !== 'tree').map(entry => entry.path));
+  const changes: GitTreeEntry[] = [];
+  for (const { from, to } of moves) {
+    const entries = tree.filter(entry => entry.type !== 'tree' && (entry.path === from || entry.path.startsWith(`${from}/`)));
+    if (entries.length === 0) {
+      throw new Error(`Không tìm thấy "${from}".`);
+    }
+    for (const entry of entries) {
+      const newPath = to + entry.path.slice(from.length);
+      if (existing.has(newPath)) {
+        throw new Error(`"${newPath}" đã tồn tại.`);
+      }
+      changes.push({ path: newPath, mode: entry.mode, type: entry.type, sha: entry.sha });
+      changes.push({ path: entry.path, mode: entry.mode, type: entry.type, sha: null });
+    }
+  }
+  return changes;
+};
+
+// Deletes every file below `prefix`, including nested subfolders.
+const buildDeleteChanges = (tree: GitTreeEntry[], prefix: string): GitTreeEntry[] => {
+  return tree
+    .filter(entry => entry.type !== 'tree' && entry.path.startsWith(`${prefix}/`))
+    .map(entry => ({ path: entry.path, mode: entry.mode, type: entry.type, sha: null }));
+};
+
+// --- Import Sources ---
+// A file to upload and the subfolder (relative to the active folder) it goes into.
+type UploadSource = { file: File; folder: string };
+
+const readDirectoryEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns the listing in batches and an empty batch at the end.
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+// Walks dropped files and directories. Folder names go through sanitizeFolderName like
+// folders created in the app; hidden files and non-images are skipped at every level.
+const collectDroppedFiles = async (entries: FileSystemEntry[], folder = ''): Promise<UploadSource[]> => {
+  const sources: UploadSource[] = [];
+  for (const entry of entries) {
+    if (entry.isFile) {
+      if (entry.name.startsWith('.') || !IMAGE_FILE_PATTERN.test(entry.name)) continue;
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      sources.push({ file, folder });
+    } else if (entry.isDirectory && !entry.name.startsWith('.') && entry.name !== THUMBNAIL_DIR) {
+      const name = sanitizeFolderName(entry.name);
+      const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+      sources.push(...await collectDroppedFiles(children, name ? joinPath(folder, name) : folder));
+    }
+  }
+  return sources;
+};
+
+const extensionForType = (type: string): string | undefined =>
+  Object.keys(MIME_TYPES).find(extension => MIME_TYPES[extension] === type);
+
+// Clipboard images are usually all called "image.png", so name them by time instead.
+const namePastedFile = (file: File): File => {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+  return new File([file], `paste-${stamp}.${extensionForType(file.type) ?? 'png'}`, { type: file.type });
+};
+
+const fetchImageFile = async (url: string): Promise<File> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Máy chủ trả về ${response.status}`);
+  const blob = await response.blob();
+  const extension = extensionForType(blob.type);
+  if (!extension) throw new Error(`Không phải tệp ảnh được hỗ trợ (${blob.type || 'không rõ loại'})`);
+  const lastSegment = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+  const stem = lastSegment.replace(/\.[^.]*$/, '') || 'image';
+  const name = IMAGE_FILE_PATTERN.test(lastSegment) && MIME_TYPES[lastSegment.split('.').pop()!.toLowerCase()] === blob.type
+    ? lastSegment
+    : `${stem}.${extension}`;
+  return new File([blob], name, { type: blob.type });
+};
+
+const toUploadSources = (files: FileList | File[]): UploadSource[] => Array.from(files, file => ({ file, folder: '' }));
+
+// --- React Components ---
+
+type NotificationAction = { label: string; onClick: () => void };
+
+const Notification = ({ message, type, action, onEnd }: {
+    message: string | null;
+    type: 'success' | 'error';
+    action?: NotificationAction;
+    onEnd: () => void;
+}) => {
+    const [visible, setVisible] = useState(false);
+
+    useEffect(() => {
+        if (message) {
+            setVisible(true);
+            // Leave actionable toasts up longer so there is time to click them.
+            const timer = setTimeout(() => {
+                setVisible(false);
+                setTimeout(onEnd, 300);
+            }, action ? 8000 : 3000);
+            return () => clearTimeout(timer);
+        }
+    }, [message, action, onEnd]);
+
+    const handleAction = () => {
+        setVisible(false);
+        action?.onClick();
+    };
+
+    return (
+        <div className={`notification ${type} ${visible ? 'show' : ''}`}>
+            {message}
+            {action && <button className="notification-action" onClick={handleAction}>{action.label}</button>}
+        </div>
+    );
+};
+
+const RateLimitIndicator = () => {
+    const [state, setState] = useState<RateLimitState>(rateLimit);
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => subscribeRateLimit(setState), []);
+
+    const isThrottled = state.throttledUntil > now;
+    useEffect(() => {
+        if (!isThrottled && state.queuedWrites === 0) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [isThrottled, state.queuedWrites]);
+
+    if (state.remaining === null || state.limit === null) return null;
+
+    const ratio = state.limit > 0 ? state.remaining / state.limit : 0;
+    const level = isThrottled || ratio < 0.1 ? 'low' : ratio < 0.3 ? 'medium' : 'high';
+    const resetTime = state.reset ? new Date(state.reset).toLocaleTimeString() : '';
+
+    return (
+        <div className={`rate-limit-indicator ${level}`} title={`Hạn mức API đặt lại lúc ${resetTime}`}>
+            <span>API: {state.remaining}/{state.limit}</span>
+            <span className="rate-limit-reset">đặt lại {resetTime}</span>
+            {isThrottled && <span>Đang chờ {Math.ceil((state.throttledUntil - now) / 1000)}s</span>}
+            {state.queuedWrites > 0 && <span>{state.queuedWrites} thao tác ghi đang chờ</span>}
+        </div>
+    );
+};
+
+const MIME_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+};
+
+// Renders a blob fetched by SHA, which also works for private repos and past versions.
+const BlobImage = ({ repo, token, sha, path, className }: { repo: string; token: string; sha: string; path: string; className?: string }) => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        const type = MIME_TYPES[path.split('.').pop()!.toLowerCase()] ?? '';
+        githubApi.getBlob(repo, token, sha)
+            .then(blob => {
+                if (cancelled) return;
+                objectUrl = URL.createObjectURL(new Blob([blob], { type }));
+                setUrl(objectUrl);
+            })
+            .catch(error => console.error(`Could not load blob ${sha}`, error));
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [repo, token, sha, path]);
+
+    return url
+        ? <img src={url} alt={baseName(path)} className={className} />
+        : <div className={`${className ?? ''} blob-image-placeholder`} />;
+};
+
+const PullRequestsModal = ({ repo, token, base, onClose, onMerged }: {
+    repo: string;
+    token: string;
+    base: string;
+    onClose: () => void;
+    onMerged: () => void;
+}) => {
+    const [pulls, setPulls] = useState<any[] | null>(null);
+    const [selected, setSelected] = useState<any | null>(null);
+    const [files, setFiles] = useState<any[]>([]);
+    const [baseShas, setBaseShas] = useState<Record<string, string>>({});
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        githubApi.listAssetPullRequests(repo, token, base).then(setPulls).catch(error => setError((error as Error).message));
+    }, [repo, token, base]);
+
+    useEffect(() => {
+        if (!selected) return;
+        setFiles([]);
+        setBaseShas({});
+        (async () => {
+            const changed = (await githubApi.listPullRequestFiles(repo, token, selected.number)).filter((file: any) => isAssetPath(file.filename));
+            setFiles(changed);
+            // The files API only gives the new blob; look the previous one up on the base commit.
+            const previous = await Promise.all(changed
+                .filter((file: any) => file.status !== 'added')
+                .map(async (file: any) => {
+                    const path = file.previous_filename ?? file.filename;
+                    const content = await githubApi.request(contentsPath(repo, path, selected.base.sha), token).catch(() => null);
+                    return [file.filename, content?.sha] as const;
+                }));
+            setBaseShas(Object.fromEntries(previous.filter(([, sha]) => sha)));
+        })().catch(error => setError((error as Error).message));
+    }, [repo, token, selected]);
+
+    const handleMerge = async () => {
+        if (!selected) return;
+        try {
+            await githubApi.mergePullRequest(repo, token, selected.number);
+            setPulls(prev => prev?.filter(pull => pull.number !== selected.number) ?? null);
+            setSelected(null);
+            onMerged();
+        } catch (error) {
+            setError((error as Error).message);
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="review-modal-content" onClick={(e) => e.stopPropagation()}>
+                <button className="modal-close-button" onClick={onClose} aria-label="Đóng">×</button>
+                <h3>Yêu cầu duyệt ảnh ({base})</h3>
+                {error && <p className="error-message">{error}</p>}
+                {pulls === null && !error && <div className="loader"></div>}
+                {pulls?.length === 0 && <p>Không có yêu cầu duyệt nào đang mở.</p>}
+                <div className="review-layout">
+                    <ul className="review-list">
+                        {pulls?.map(pull => (
+                            <li key={pull.number} className={selected?.number === pull.number ? 'active' : ''} onClick={() => setSelected(pull)}>
+                                <strong>#{pull.number}</strong> {pull.title}
+                                <span>{pull.user.login} · {new Date(pull.created_at).toLocaleString()}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    {selected && (
+                        <div className="review-diff">
+                            <div className="review-diff-actions">
+                                <a href={selected.html_url} target="_blank" rel="noreferrer">Mở trên GitHub</a>
+                                <button onClick={handleMerge}>Hợp nhất</button>
+                            </div>
+                            {files.map(file => (
+                                <div key={file.filename} className={`review-file ${file.status}`}>
+                                    <p title={file.filename}>{file.status}: {file.filename}</p>
+                                    <div className="review-file-images">
+                                        {baseShas[file.filename]
+                                            ? <BlobImage repo={repo} token={token} sha={baseShas[file.filename]} path={file.filename} className="review-image" />
+                                            : <div className="review-image empty">—</div>}
+                                        <span>→</span>
+                                        {file.status !== 'removed'
+                                            ? <BlobImage repo={repo} token={token} sha={file.sha} path={file.filename} className="review-image" />
+                                            : <div className="review-image empty">—</div>}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const TrashModal = ({ repo, token, branch, onClose, onRestore }: {
+    repo: string;
+    token: string;
+    branch: string;
+    onClose: () => void;
+    onRestore: (entry: TrashEntry) => Promise<boolean>;
+}) => {
+    const [entries, setEntries] = useState<TrashEntry[] | null>(null);
+    const [restoring, setRestoring] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchDeletedFiles(repo, token, branch).then(setEntries).catch(error => setError((error as Error).message));
+    }, [repo, token, branch]);
+
+    const handleRestore = async (entry: TrashEntry) => {
+        setRestoring(entry.path);
+        if (await onRestore(entry)) {
+            setEntries(prev => prev?.filter(item => item.path !== entry.path) ?? null);
+        }
+        setRestoring(null);
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="review-modal-content" onClick={(e) => e.stopPropagation()}>
+                <button className="modal-close-button" onClick={onClose} aria-label="Đóng">×</button>
+                <h3>Thùng rác</h3>
+                <p className="trash-hint">Ảnh bị xóa trong {TRASH_COMMIT_LIMIT} commit gần nhất của nhánh "{branch}".</p>
+                {error && <p className="error-message">{error}</p>}
+                {entries === null && !error && <div className="loader"></div>}
+                {entries?.length === 0 && <p>Thùng rác trống.</p>}
+                <ul className="trash-list">
+                    {entries?.map(entry => (
+                        <li key={entry.path}>
+                            <div className="trash-info">
+                                <strong title={entry.path}>{entry.path}</strong>
+                                <span>{entry.message} · {entry.author} · {entry.date && new Date(entry.date).toLocaleString()}</span>
+                            </div>
+                            <button onClick={() => handleRestore(entry)} disabled={restoring !== null}>
+                                {restoring === entry.path ? 'Đang khôi phục...' : 'Khôi phục'}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+type SimilarResolution = { keep: string; remove: string[] };
+
+const SimilarImagesModal = ({ library, token, lfsPatterns, onClose, onResolve }: {
+    library: Library;
+    token: string;
+    lfsPatterns: RegExp[];
+    onClose: () => void;
+    onResolve: (resolutions: SimilarResolution[], merge: boolean) => void;
+}) => {
+    const [hashed, setHashed] = useState<HashedImage[]>([]);
+    const [progress, setProgress] = useState<{ done: number; total: number; failed: number } | null>(null);
+    const [threshold, setThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+    const [keepers, setKeepers] = useState<Record<string, string>>({});
+    const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    // Hashes every image in the background; results show up as they arrive.
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            const { tree } = await githubApi.getHead(library.repo, token, library.branch);
+            const entries = tree.filter(entry => entry.type === 'blob' && isAssetPath(entry.path) && !isLfsPath(entry.path, lfsPatterns));
+            const state = { done: 0, total: entries.length, failed: 0 };
+            setProgress({ ...state });
+            const results: HashedImage[] = [];
+            await runWithConcurrency(entries, UPLOAD_CONCURRENCY, async (entry) => {
+                if (cancelled) return;
+                try {
+                    results.push({ path: entry.path, sha: entry.sha!, hash: await computeImageHash(library.repo, token, entry.sha!) });
+                } catch (error) {
+                    state.failed++;
+                    console.error(`Could not hash ${entry.path}`, error);
+                }
+                state.done++;
+                if (!cancelled && (state.done % 20 === 0 || state.done === state.total)) {
+                    setProgress({ ...state });
+                    setHashed([...results]);
+                }
+            });
+        })().catch(error => !cancelled && setError((error as Error).message));
+        return () => { cancelled = true; };
+    }, [library.repo, library.branch, token, lfsPatterns]);
+
+    const groups = useMemo(() => groupSimilarImages(hashed, threshold), [hashed, threshold]);
+    const groupKey = (group: HashedImage[]) => group[0].path;
+    const keeperOf = (group: HashedImage[]) => group.find(image => image.path === keepers[groupKey(group)]) ?? group[0];
+    const removableOf = (group: HashedImage[]) => group.filter(image =>
+        image !== keeperOf(group) && hashDistance(image.hash, keeperOf(group).hash) <= threshold);
+
+    // Group keys and members change with the threshold, so a selection would silently apply to other images.
+    useEffect(() => {
+        setSelectedGroups([]);
+        setKeepers({});
+    }, [threshold]);
+
+    const handleResolve = (merge: boolean) => {
+        const resolutions = groups
+            .filter(group => selectedGroups.includes(groupKey(group)))
+            .map(group => ({ keep: keeperOf(group).path, remove: removableOf(group).map(image => image.path) }))
+            .filter(resolution => resolution.remove.length > 0);
+        if (resolutions.length > 0) onResolve(resolutions, merge);
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="review-modal-content" onClick={(e) => e.stopPropagation()}>
+                <button className="modal-close-button" onClick={onClose} aria-label="Đóng">×</button>
+                <h3>Ảnh tương tự</h3>
+                {error && <p className="error-message">{error}</p>}
+                {progress && progress.done < progress.total && (
+                    <div className="similar-progress">
+                        <span>Đang phân tích {progress.done}/{progress.total} ảnh...</span>
+                        <div className="progress-bar"><div className="progress-bar-fill" style={{ width: `${(progress.done / progress.total) * 100}%` }}></div></div>
+                    </div>
+                )}
+                {progress && progress.failed > 0 && <p className="trash-hint">Không phân tích được {progress.failed} ảnh.</p>}
+                <div className="similar-controls">
+                    <label>
+                        Ngưỡng khác biệt: {threshold} bit
+                        <input type="range" min={0} max={16} value={threshold} onChange={e => setThreshold(Number(e.target.value))} />
+                    </label>
+                    <span>{groups.length} nhóm</span>
+                    <button onClick={() => setSelectedGroups(groups.map(groupKey))} disabled={groups.length === 0}>Chọn tất cả nhóm</button>
+                    <button onClick={() => handleResolve(false)} disabled={selectedGroups.length === 0} className="similar-delete">Xóa bản trùng</button>
+                    <button onClick={() => handleResolve(true)} disabled={selectedGroups.length === 0}>Gộp vào ảnh giữ lại</button>
+                </div>
+                {!progress && !error && <div className="loader"></div>}
+                {progress && progress.done === progress.total && groups.length === 0 && <p>Không tìm thấy ảnh tương tự.</p>}
+                <ul className="similar-groups">
+                    {groups.map(group => (
+                        <li key={groupKey(group)} className="similar-group">
+                            <label className="similar-group-select">
+                                <input
+                                    type="checkbox"
+                                    checked={selectedGroups.includes(groupKey(group))}
+                                    onChange={e => setSelectedGroups(prev => e.target.checked
+                                        ? [...prev, groupKey(group)]
+                                        : prev.filter(key => key !== groupKey(group)))}
+                                />
+                                {group.length} ảnh
+                            </label>
+                            <div className="similar-group-images">
+                                {group.map(image => {
+                                    const isKeeper = keeperOf(group) === image;
+                                    const distance = hashDistance(image.hash, keeperOf(group).hash);
+                                    return (
+                                        <label
+                                            key={image.path}
+                                            className={`similar-image ${isKeeper ? 'keeper' : ''} ${!isKeeper && distance > threshold ? 'too-far' : ''}`}
+                                            title={image.path}
+                                        >
+                                            <BlobImage repo={library.repo} token={token} sha={image.sha} path={image.path} className="review-image" />
+                                            <span>
+                                                <input
+                                                    type="radio"
+                                                    checked={isKeeper}
+                                                    onChange={() => setKeepers(prev => ({ ...prev, [groupKey(group)]: image.path }))}
+                                                />
+                                                {image.path}
+                                            </span>
+                                            {!isKeeper && (
+                                                <span className="similar-distance">
+                                                    Cách ảnh giữ lại {distance} bit{distance > threshold && ' · quá ngưỡng, sẽ được giữ'}
+                                                </span>
+                                            )}
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+type AtlasResult = { image: Blob; frameMap: string; imageName: string; width: number; height: number };
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const AtlasExportModal = ({ library, token, folder, images, lfsPatterns, onClose, onCommit }: {
+    library: Library;
+    token: string;
+    folder: string;
+    images: any[];
+    lfsPatterns: RegExp[];
+    onClose: () => void;
+    onCommit: (result: AtlasResult, targetPath: string) => Promise<boolean>;
+}) => {
+    const [format, setFormat] = useState<'image/png' | 'image/webp'>('image/png');
+    const [padding, setPadding] = useState(2);
+    const [powerOfTwo, setPowerOfTwo] = useState(true);
+    const [targetPath, setTargetPath] = useState(`atlases/${baseName(folder)}`);
+    const [result, setResult] = useState<AtlasResult | null>(null);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    useEffect(() => () => { if (previewUrl) URL.revokeObjectURL(previewUrl); }, [previewUrl]);
+
+    const pathError = isValidRepoPath(targetPath) ? null : 'Đường dẫn không hợp lệ: không bắt đầu bằng "/", không có đoạn rỗng, "." hoặc "..".';
+
+    const handleBuild = async () => {
+        setIsWorking(true);
+        setResult(null);
+        const bitmaps: { name: string; bitmap: ImageBitmap }[] = [];
+        try {
+            await runWithConcurrency(images, UPLOAD_CONCURRENCY, async (image) => {
+                const blob = isLfsPath(image.path, lfsPatterns)
+                    ? await lfsApi.download(image.download_url)
+                    : await githubApi.getBlob(library.repo, token, image.sha);
+                bitmaps.push({ name: image.name, bitmap: await createImageBitmap(blob) });
+                setStatus(`Đang tải ảnh ${bitmaps.length}/${images.length}...`);
+            });
+            setStatus('Đang xếp ảnh...');
+            const layout = packAtlas(bitmaps.map(({ name, bitmap }) => ({ name, width: bitmap.width, height: bitmap.height })), padding, powerOfTwo);
+            const canvas = new OffscreenCanvas(layout.width, layout.height);
+            const context = canvas.getContext('2d')!;
+            const byName = new Map(bitmaps.map(({ name, bitmap }) => [name, bitmap]));
+            for (const frame of layout.frames) {
+                context.drawImage(byName.get(frame.name)!, frame.x, frame.y);
+            }
+            const image = await canvas.convertToBlob({ type: format, quality: 0.95 });
+            const imageName = `${baseName(targetPath)}.${image.type === 'image/webp' ? 'webp' : 'png'}`;
+            const frameMap = JSON.stringify(buildAtlasFrameMap(layout.frames, imageName, layout, 'RGBA8888'), null, 2);
+            setResult({ image, frameMap, imageName, width: layout.width, height: layout.height });
+            setPreviewUrl(URL.createObjectURL(image));
+            setStatus(`${layout.frames.length} ảnh, ${layout.width}×${layout.height}px, ${formatBytes(image.size)}`);
+        } catch (error) {
+            setStatus(`Lỗi: ${(error as Error).message}`);
+        } finally {
+            bitmaps.forEach(({ bitmap }) => bitmap.close());
+            setIsWorking(false);
+        }
+    };
+
+    const handleDownload = () => {
+        if (!result) return;
+        downloadBlob(result.image, result.imageName);
+        downloadBlob(new Blob([result.frameMap], { type: 'application/json' }), `${baseName(targetPath)}.json`);
+    };
+
+    const handleCommit = async () => {
+        if (!result) return;
+        setIsWorking(true);
+        if (await onCommit(result, targetPath)) onClose();
+        setIsWorking(false);
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="review-modal-content" onClick={(e) => e.stopPropagation()}>
+                <button className="modal-close-button" onClick={onClose} aria-label="Đóng">×</button>
+                <h3>Xuất atlas: {folder} ({images.length} ảnh)</h3>
+                <div className="atlas-options">
+                    <label>Định dạng
+                        <select value={format} onChange={e => setFormat(e.target.value as 'image/png' | 'image/webp')}>
+                            <option value="image/png">PNG</option>
+                            <option value="image/webp">WebP</option>
+                        </select>
+                    </label>
+                    <label>Khoảng đệm (px)
+                        <input type="number" min={0} max={64} value={padding} onChange={e => setPadding(Math.max(0, Number(e.target.value)))} />
+                    </label>
+                    <label>
+                        <input type="checkbox" checked={powerOfTwo} onChange={e => setPowerOfTwo(e.target.checked)} />
+                        Kích thước lũy thừa của 2
+                    </label>
+                    <label>Đường dẫn trong repo (không có đuôi)
+                        <input type="text" value={targetPath} onChange={e => setTargetPath(e.target.value)} />
+                    </label>
+                    <button onClick={handleBuild} disabled={isWorking || images.length === 0 || !!pathError}>Tạo atlas</button>
+                </div>
+                {pathError && <p className="error-message">{pathError}</p>}
+                {status && <p className="atlas-status">{status}</p>}
+                {previewUrl && <img src={previewUrl} alt="Atlas" className="atlas-preview" />}
+                {result && (
+                    <div className="atlas-actions">
+                        <button onClick={handleDownload}>Tải xuống ảnh + JSON</button>
+                        <button onClick={handleCommit} disabled={isWorking || !!pathError}>Commit vào repo</button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const LibrarySwitcher = ({ libraries, current, token, onSwitch, onRemove }: {
+    libraries: Library[];
+    current: Library;
+    token: string;
+    onSwitch: (library: Library) => void;
+    onRemove: (library: Library) => void;
+}) => {
+    const [branches, setBranches] = useState<string[]>([current.branch]);
+    const [isAdding, setIsAdding] = useState(false);
+    const [newRepo, setNewRepo] = useState('');
+
+    useEffect(() => {
+        githubApi.listBranches(current.repo, token)
+            .then(names => setBranches(names.includes(current.branch) ? names : [current.branch, ...names]))
+            .catch(error => console.error(`Could not list branches of ${current.repo}`, error));
+    }, [current.repo, current.branch, token]);
+
+    const currentKey = libraryKey(current.repo, current.branch);
+    const options = libraries.some(l => libraryKey(l.repo, l.branch) === currentKey) ? libraries : [current, ...libraries];
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const repo = newRepo.trim();
+        if (!repo) return;
+        setIsAdding(false);
+        setNewRepo('');
+        try {
+            onSwitch({ repo, branch: await githubApi.getDefaultBranch(repo, token) });
+        } catch (error) {
+            console.error(`Could not open ${repo}`, error);
+            onSwitch({ repo, branch: 'main' });
+        }
+    };
+
+    return (
+        <div className="library-switcher">
+            <select
+                value={currentKey}
+                onChange={e => onSwitch(options.find(l => libraryKey(l.repo, l.branch) === e.target.value)!)}
+                aria-label="Thư viện ảnh"
+            >
+                {options.map(library => (
+                    <option key={libraryKey(library.repo, library.branch)} value={libraryKey(library.repo, library.branch)}>
+                        {library.repo} ({library.branch})
+                    </option>
+                ))}
+            </select>
+            <select value={current.branch} onChange={e => onSwitch({ repo: current.repo, branch: e.target.value })} aria-label="Nhánh">
+                {branches.map(branch => <option key={branch} value={branch}>{branch}</option>)}
+            </select>
+            {options.length > 1 && (
+                <button onClick={() => onRemove(current)} title="Bỏ thư viện này khỏi danh sách" aria-label="Bỏ thư viện">−</button>
+            )}
+            {isAdding ? (
+                <form onSubmit={handleAdd}>
+                    <input
+                        value={newRepo}
+                        onChange={e => setNewRepo(e.target.value)}
+                        placeholder="user/repo-name"
+                        pattern="^[^/]+/[^/]+$"
+                        aria-label="Repo mới"
+                        autoFocus
+                        onBlur={() => !newRepo && setIsAdding(false)}
+                    />
+                </form>
+            ) : (
+                <button onClick={() => setIsAdding(true)} title="Thêm thư viện" aria-label="Thêm thư viện">+</button>
+            )}
+        </div>
+    );
+};
+
+const Breadcrumbs = ({ path, onNavigate }: { path: string; onNavigate: (path: string) => void }) => {
+    const segments = path.split('/');
+    return (
+        <nav className="breadcrumbs" aria-label="Đường dẫn thư mục">
+            {segments.map((segment, i) => {
+                const segmentPath = segments.slice(0, i + 1).join('/');
+                const isLast = i === segments.length - 1;
+                return (
+                    <React.Fragment key={segmentPath}>
+                        {i > 0 && <span className="breadcrumb-separator">/</span>}
+                        {isLast
+                            ? <span className="breadcrumb-current">{segment}</span>
+                            : <button className="breadcrumb-link" onClick={() => onNavigate(segmentPath)}>{segment}</button>}
+                    </React.Fragment>
+                );
+            })}
+        </nav>
+    );
+};
+
+const SEARCH_EXTENSIONS = ['jpg', 'png', 'gif', 'webp', 'avif'];
+
+const SearchBar = ({ query, onChange }: { query: SearchQuery; onChange: (query: SearchQuery) => void }) => {
+    const update = (key: keyof SearchQuery) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+        onChange({ ...query, [key]: e.target.value });
+    const hasFilters = Object.entries(query).some(([key, value]) => key !== 'q' && value !== '');
+
+    return (
+        <div className="search-bar">
+            <div className="search-bar-row">
+                <input
+                    type="search"
+                    value={query.q}
+                    onChange={update('q')}
+                    placeholder="Tìm ảnh trong mọi thư mục (hỗ trợ * và ?)..."
+                    aria-label="Tìm kiếm ảnh"
+                />
+                <select value={query.ext} onChange={update('ext')} aria-label="Định dạng">
+                    <option value="">Mọi định dạng</option>
+                    {SEARCH_EXTENSIONS.map(ext => <option key={ext} value={ext}>{ext.toUpperCase()}</option>)}
+                </select>
+                {isSearchActive(query) && <button onClick={() => onChange(EMPTY_SEARCH)}>Xóa tìm kiếm</button>}
+            </div>
+            <details className="search-filters" open={hasFilters || undefined}>
+                <summary>Bộ lọc nâng cao</summary>
+                <label>Dung lượng (KB)
+                    <input type="number" min={0} value={query.minSize} onChange={update('minSize')} placeholder="từ" />
+                    <input type="number" min={0} value={query.maxSize} onChange={update('maxSize')} placeholder="đến" />
+                </label>
+                <label>Chiều rộng (px)
+                    <input type="number" min={0} value={query.minWidth} onChange={update('minWidth')} placeholder="từ" />
+                    <input type="number" min={0} value={query.maxWidth} onChange={update('maxWidth')} placeholder="đến" />
+                </label>
+                <label>Chiều cao (px)
+                    <input type="number" min={0} value={query.minHeight} onChange={update('minHeight')} placeholder="từ" />
+                    <input type="number" min={0} value={query.maxHeight} onChange={update('maxHeight')} placeholder="đến" />
+                </label>
+                <label>Ngày tải lên
+                    <input type="date" value={query.from} onChange={update('from')} />
+                    <input type="date" value={query.to} onChange={update('to')} />
+                </label>
+            </details>
+        </div>
+    );
+};
+
+const DeviceLogin = ({ onToken, disabled }: { onToken: (token: string) => void; disabled: boolean }) => {
+    const [code, setCode] = useState<DeviceCode | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const cancelledRef = useRef(false);
+
+    useEffect(() => () => { cancelledRef.current = true; }, []);
+
+    const handleStart = async () => {
+        setError(null);
+        cancelledRef.current = false;
+        try {
+            const deviceCode = await deviceFlow.start();
+            setCode(deviceCode);
+            const token = await deviceFlow.waitForToken(deviceCode, () => cancelledRef.current);
+            setCode(null);
+            onToken(token);
+        } catch (error) {
+            setCode(null);
+            if (!cancelledRef.current) setError((error as Error).message);
+        }
+    };
+
+    if (code) {
+        return (
+            <div className="device-login">
+                <p>Mở <a href={code.verification_uri} target="_blank" rel="noreferrer">{code.verification_uri}</a> và nhập mã:</p>
+                <p className="device-code">{code.user_code}</p>
+                <p className="device-login-hint">Đang chờ xác nhận...</p>
+                <button type="button" className="button-secondary" onClick={() => { cancelledRef.current = true; setCode(null); }}>Hủy</button>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <button type="button" onClick={handleStart} disabled={disabled}>Đăng nhập bằng GitHub</button>
+            {error && <p className="error-message">{error}</p>}
+        </>
+    );
+};
+
+const Login = ({ onLogin, onUnlock, onForget, unlockRepo, loginError, isLoading }: {
+    onLogin: (token: string, repo: string, mode: TokenStorageMode, passphrase: string) => void;
+    onUnlock: (passphrase: string) => void;
+    onForget: () => void;
+    unlockRepo: string | null;
+    loginError: string | null;
+    isLoading: boolean;
+}) => {
+    const [token, setToken] = useState('');
+    const [repo, setRepo] = useState('');
+    const [storageMode, setStorageMode] = useState<TokenStorageMode>('encrypted');
+    const [passphrase, setPassphrase] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (unlockRepo) {
+            onUnlock(passphrase);
+        } else {
+            onLogin(token, repo, storageMode, passphrase);
+        }
+    };
+
+    if (unlockRepo) {
+        return (
+            <div className="login-container">
+                <form onSubmit={handleSubmit} className="login-form">
+                    <h2>Mở khóa</h2>
+                    <p>Nhập mật khẩu để giải mã token của <strong>{unlockRepo}</strong>.</p>
+                    <input
+                        type="password"
+                        value={passphrase}
+                        onChange={e => setPassphrase(e.target.value)}
+                        placeholder="Mật khẩu"
+                        aria-label="Mật khẩu"
+                        required
+                        disabled={isLoading}
+                        autoFocus
+                    />
+                    <button type="submit" disabled={isLoading}>
+                        {isLoading ? 'Đang kiểm tra...' : 'Mở khóa'}
+                    </button>
+                    <button type="button" className="button-secondary" onClick={onForget} disabled={isLoading}>Dùng token khác</button>
+                    {loginError && <p className="error-message">{loginError}</p>}
+                </form>
+            </div>
+        );
+    }
+
+    return (
+        <div className="login-container">
+            <form onSubmit={handleSubmit} className="login-form">
+                <h2>Đăng nhập GitHub</h2>
+                <input
+                    type="text"
+                    value={repo}
+                    onChange={e => setRepo(e.target.value)}
+                    placeholder="Repo (ví dụ: user/repo-name)"
+                    aria-label="GitHub Repository"
+                    pattern="^[^/]+/[^/]+$"
+                    title="Định dạng phải là 'user/repo-name'"
+                    required
+                    disabled={isLoading}
+                />
+                <input
+                    type="password"
+                    value={token}
+                    onChange={e => setToken(e.target.value)}
+                    placeholder="Fine-grained token hoặc Personal Access Token"
+                    aria-label="GitHub Personal Access Token"
+                    required
+                    disabled={isLoading}
+                />
+                <select value={storageMode} onChange={e => setStorageMode(e.target.value as TokenStorageMode)} disabled={isLoading} aria-label="Cách lưu token">
+                    <option value="encrypted">Lưu token, mã hóa bằng mật khẩu</option>
+                    <option value="session">Chỉ trong phiên này</option>
+                    <option value="local">Lưu không mã hóa</option>
+                </select>
+                {storageMode === 'encrypted' && (
+                    <input
+                        type="password"
+                        value={passphrase}
+                        onChange={e => setPassphrase(e.target.value)}
+                        placeholder="Mật khẩu mã hóa token"
+                        aria-label="Mật khẩu mã hóa token"
+                        minLength={8}
+                        required
+                        disabled={isLoading}
+                    />
+                )}
+                <button type="submit" disabled={isLoading || !token}>
+                    {isLoading ? 'Đang kiểm tra...' : 'Đăng nhập'}
+                </button>
+                {GITHUB_CLIENT_ID && (
+                    <DeviceLogin
+                        disabled={isLoading || !/^[^/]+\/[^/]+$/.test(repo) || (storageMode === 'encrypted' && passphrase.length < 8)}
+                        onToken={deviceToken => onLogin(deviceToken, repo, storageMode, passphrase)}
+                    />
+                )}
+                {loginError && <p className="error-message">{loginError}</p>}
+            </form>
+        </div>
+    );
+};
+
+type UploadStatus = 'queued' | 'processing' | 'uploading' | 'done' | 'failed';
+
+type UploadItem = {
+    id: string;
+    file: File;
+    path: string;
+    status: UploadStatus;
+    originalSize: number;
+    // The options of the folder it was queued in, so a retry processes it the same way.
+    options: ProcessingOptions;
+    processed?: boolean;
+    blobSha?: string;
+    // Set when the user chose to overwrite; the commit checks the file is still this blob.
+    replaceSha?: string;
+    // The replaced file, which is deleted in the same commit when a format change moves it to a new extension.
+    replacePath?: string;
+    error?: string;
+};
+
+type UploadResolution = 'upload' | 'replace' | 'rename' | 'skip';
+
+type UploadConflict = {
+    file: File;
+    // The file after the folder's processing options, or undefined if processing failed.
+    processed?: File;
+    path: string;
+    // The clashing file: either `path` or the original name before a format change.
+    existingPath?: string;
+    existingSha?: string;
+    duplicates: string[];
+};
+
+const UploadConflictModal = ({ conflicts, onCancel, onConfirm }: {
+    conflicts: UploadConflict[];
+    onCancel: () => void;
+    onConfirm: (resolutions: UploadResolution[]) => void;
+}) => {
+    const [resolutions, setResolutions] = useState<UploadResolution[]>(() => conflicts.map(conflict =>
+        conflict.existingSha ? 'rename' : conflict.duplicates.length > 0 ? 'skip' : 'upload'));
+
+    const setResolution = (index: number, resolution: UploadResolution) =>
+        setResolutions(prev => prev.map((value, i) => i === index ? resolution : value));
+
+    const applyToClashes = (resolution: UploadResolution) =>
+        setResolutions(prev => prev.map((value, i) => conflicts[i].existingSha ? resolution : value));
+
+    const isFlagged = (conflict: UploadConflict) => !!conflict.existingSha || conflict.duplicates.length > 0;
+    const flagged = conflicts.map((conflict, index) => ({ conflict, index })).filter(({ conflict }) => isFlagged(conflict) || isReprocessed(conflict));
+    const clashCount = conflicts.filter(conflict => conflict.existingSha).length;
+    const originalTotal = conflicts.reduce((total, conflict) => total + conflict.file.size, 0);
+    const processedTotal = conflicts.reduce((total, conflict) => total + (conflict.processed ?? conflict.file).size, 0);
+
+    return (
+        <div className="modal-overlay" onClick={onCancel}>
+            <div className="confirmation-modal-content upload-conflict-modal" onClick={(e) => e.stopPropagation()}>
+                <h3>{conflicts.some(isFlagged) ? 'Ảnh đã tồn tại' : 'Xem trước tải lên'}</h3>
+                <p className="upload-conflict-total">
+                    {conflicts.length} ảnh: {formatBytes(originalTotal)} → {formatBytes(processedTotal)} sau khi xử lý
+                </p>
+                {clashCount > 1 && (
+                    <div className="upload-conflict-bulk">
+                        <span>Với {clashCount} ảnh trùng tên:</span>
+                        <button onClick={() => applyToClashes('replace')}>Thay thế tất cả</button>
+                        <button onClick={() => applyToClashes('rename')}>Giữ cả hai</button>
+                        <button onClick={() => applyToClashes('skip')}>Bỏ qua tất cả</button>
+                    </div>
+                )}
+                <ul className="upload-conflict-list">
+                    {flagged.map(({ conflict, index }) => (
+                        <li key={conflict.path}>
+                            <strong title={conflict.path}>{conflict.file.name}</strong>
+                            <span className="upload-conflict-size">
+                                {conflict.processed
+                                    ? `${formatBytes(conflict.file.size)} → ${formatBytes(conflict.processed.size)}${conflict.processed.name !== conflict.file.name ? ` (${conflict.processed.name})` : ''}`
+                                    : `${formatBytes(conflict.file.size)} · không xử lý được, sẽ thử lại khi tải lên`}
+                            </span>
+                            {conflict.existingSha && <p>Đã có ảnh cùng tên trong thư mục này.</p>}
+                            {conflict.existingPath && conflict.existingPath !== conflict.path && (
+                                <p>Ảnh được đổi định dạng: thay thế sẽ xóa {baseName(conflict.existingPath)} và lưu thành {baseName(conflict.path)}.</p>
+                            )}
+                            {conflict.duplicates.length > 0 && (
+                                <p className="upload-conflict-duplicates">Nội dung giống hệt: {conflict.duplicates.join(', ')}</p>
+                            )}
+                            {isFlagged(conflict) && <div className="upload-conflict-options">
+                                {conflict.existingSha ? (
+                                    <>
+                                        <label><input type="radio" checked={resolutions[index] === 'replace'} onChange={() => setResolution(index, 'replace')} /> Thay thế (phiên bản mới)</label>
+                                        <label><input type="radio" checked={resolutions[index] === 'rename'} onChange={() => setResolution(index, 'rename')} /> Giữ cả hai (thêm hậu tố)</label>
+                                    </>
+                                ) : (
+                                    <label><input type="radio" checked={resolutions[index] === 'upload'} onChange={() => setResolution(index, 'upload')} /> Vẫn tải lên</label>
+                                )}
+                                <label><input type="radio" checked={resolutions[index] === 'skip'} onChange={() => setResolution(index, 'skip')} /> Bỏ qua</label>
+                            </div>}
+                        </li>
+                    ))}
+                </ul>
+                <div className="confirmation-modal-buttons">
+                    <button onClick={onCancel} className="button-secondary">Hủy</button>
+                    <button onClick={() => onConfirm(resolutions)} className="button-primary">Tải lên</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const UPLOAD_STATUS_LABELS: Record<UploadStatus, string> = {
+    queued: 'Đang chờ',
+    processing: 'Đang xử lý',
+    uploading: 'Đang tải lên',
+    done: 'Hoàn tất',
+    failed: 'Thất bại',
+};
+
+const ProcessingSettings = ({ options, onChange }: { options: ProcessingOptions; onChange: (options: ProcessingOptions) => void }) => {
+    const update = (changes: Partial<ProcessingOptions>) => onChange({ ...options, ...changes });
+
+    return (
+        <details className="processing-settings">
+            <summary>Tùy chọn xử lý ảnh cho thư mục này</summary>
+            <label>
+                <input type="checkbox" checked={options.resize} onChange={e => update({ resize: e.target.checked })} />
+                Giới hạn kích thước
+            </label>
+            {options.resize && (
+                <div className="processing-dimensions">
+                    <input type="number" min={1} value={options.maxWidth} onChange={e => update({ maxWidth: Number(e.target.value) })} aria-label="Chiều rộng tối đa" />
+                    ×
+                    <input type="number" min={1} value={options.maxHeight} onChange={e => update({ maxHeight: Number(e.target.value) })} aria-label="Chiều cao tối đa" />
+                    px
+                </div>
+            )}
+            <label>
+                Định dạng:
+                <select value={options.format} onChange={e => update({ format: e.target.value as OutputFormat })} className="sort-select">
+                    <option value="original">Giữ nguyên</option>
+                    <option value="image/jpeg">JPEG</option>
+                    <option value="image/webp">WebP</option>
+                    <option value="image/avif">AVIF</option>
+                </select>
+            </label>
+            <label>
+                Chất lượng: {Math.round(options.quality * 100)}%
+                <input type="range" min={0.1} max={1} step={0.05} value={options.quality} onChange={e => update({ quality: Number(e.target.value) })} />
+            </label>
+            <label>
+                <input type="checkbox" checked={options.stripMetadata} onChange={e => update({ stripMetadata: e.target.checked })} />
+                Xóa EXIF/GPS
+            </label>
+        </details>
+    );
+};
+
+const Uploader = ({ activeFolder, onImageUpload, onImportUrl, onError, queue, isUploading, onRetryFailed, onClearQueue, processingOptions, onProcessingOptionsChange }: {
+    activeFolder: string;
+    onImageUpload: (sources: UploadSource[]) => void;
+    onImportUrl: (url: string) => Promise<boolean>;
+    onError: (message: string) => void;
+    queue: UploadItem[];
+    isUploading: boolean;
+    onRetryFailed: () => void;
+    onClearQueue: () => void;
+    processingOptions: ProcessingOptions;
+    onProcessingOptionsChange: (options: ProcessingOptions) => void;
+}) => {
+    const [isDragging, setIsDragging] = useState(false);
+    const [importUrl, setImportUrl] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        const handlePaste = (e: ClipboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+            const files = Array.from(e.clipboardData?.files ?? []).filter(file => file.type.startsWith('image/'));
+            if (files.length === 0) return;
+            e.preventDefault();
+            onImageUpload(toUploadSources(files.map(namePastedFile)));
+        };
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, [onImageUpload]);
+
+    const handleDrag = (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(e.type === 'dragenter' || e.type === 'dragover');
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(false);
+        // Entries must be taken before the first await; the drop data is cleared afterwards.
+        const entries = Array.from((e.dataTransfer.items ?? []) as DataTransferItemList)
+            .map(item => item.webkitGetAsEntry?.())
+            .filter((entry): entry is FileSystemEntry => !!entry);
+        if (entries.some(entry => entry.isDirectory)) {
+            collectDroppedFiles(entries)
+                .then(sources => sources.length > 0 ? onImageUpload(sources) : onError('Thư mục không chứa ảnh nào.'))
+                .catch(error => onError(`Không đọc được thư mục: ${(error as Error).message}`));
+        } else if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+            onImageUpload(toUploadSources(e.dataTransfer.files));
+        }
+    };
+    
+    const handleClick = () => fileInputRef.current?.click();
+    
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files.length > 0) {
+            onImageUpload(toUploadSources(e.target.files));
+        }
+        e.target.value = '';
+    };
+
+    const handleImportUrl = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!importUrl.trim()) return;
+        setIsImporting(true);
+        if (await onImportUrl(importUrl.trim())) setImportUrl('');
+        setIsImporting(false);
+    };
+
+    const failedCount = queue.filter(item => item.status === 'failed').length;
+
+    return (
+        <>
+            <h3>Tải lên "{activeFolder}"</h3>
+            <div
+                className={`uploader-zone ${isDragging ? 'drag-over' : ''}`}
+                onDragEnter={handleDrag} onDragLeave={handleDrag} onDragOver={handleDrag} onDrop={handleDrop} onClick={handleClick}
+            >
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} multiple accept="image/*" style={{display: 'none'}} />
+                <p>Kéo và thả ảnh hoặc thư mục vào đây, hoặc nhấp để chọn tệp</p>
+                <p className="uploader-hint">Có thể dán ảnh từ bộ nhớ tạm bằng Ctrl+V</p>
+            </div>
+            <form className="uploader-url" onSubmit={handleImportUrl}>
+                <input
+                    type="url"
+                    value={importUrl}
+                    onChange={e => setImportUrl(e.target.value)}
+                    placeholder="https://example.com/anh.png"
+                    aria-label="URL ảnh"
+                    disabled={isImporting || isUploading}
+                />
+                <button type="submit" disabled={isImporting || isUploading || !importUrl.trim()}>
+                    {isImporting ? 'Đang tải...' : 'Nhập từ URL'}
+                </button>
+            </form>
+            <ProcessingSettings options={processingOptions} onChange={onProcessingOptionsChange} />
+            {queue.length > 0 && (
+                <div className="upload-queue">
+                    <ul>
+                        {queue.map(item => (
+                            <li key={item.id} className={`upload-item ${item.status}`}>
+                                <span className="upload-item-name" title={item.path}>{item.file.name}</span>
+                                <span className="upload-item-size">
+                                    {formatBytes(item.originalSize)}
+                                    {item.processed && item.file.size !== item.originalSize && ` → ${formatBytes(item.file.size)}`}
+                                </span>
+                                <span className="upload-item-status" title={item.error}>{UPLOAD_STATUS_LABELS[item.status]}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    {!isUploading && (
+                        <div className="upload-queue-actions">
+                            {failedCount > 0 && <button onClick={onRetryFailed}>Thử lại {failedCount} tệp lỗi</button>}
+                            <button onClick={onClearQueue} className="button-secondary">Xóa danh sách</button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </>
+    );
+}
+
+type ViewTransform = { scale: number; x: number; y: number };
+
+// Pan/zoom viewer. `view` is null while the image is fitted to the stage, so the fit
+// follows resizes; any zoom or pan switches to an explicit transform.
+const ZoomableImage = ({ src, alt, onLoad }: {
+    src: string;
+    alt: string;
+    onLoad: (size: { width: number; height: number }) => void;
+}) => {
+    const stageRef = useRef<HTMLDivElement>(null);
+    const pointers = useRef(new Map<number, { x: number; y: number }>());
+    const lastPinchDistance = useRef<number | null>(null);
+    const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+    const [view, setView] = useState<ViewTransform | null>(null);
+    const [pixelated, setPixelated] = useState(false);
+    const [checkerboard, setCheckerboard] = useState(true);
+    const [pixelGrid, setPixelGrid] = useState(true);
+    const [tiled, setTiled] = useState(false);
+    // Only used to re-render on resize so a fitted view follows the stage.
+    const [, setStageSize] = useState(0);
+
+    useEffect(() => {
+        setNatural(null);
+        setView(null);
+        const img = new Image();
+        img.onload = () => {
+            const size = { width: img.naturalWidth, height: img.naturalHeight };
+            setNatural(size);
+            onLoad(size);
+        };
+        img.src = src;
+        return () => { img.onload = null; };
+    }, [src]);
+
+    useEffect(() => setView(null), [tiled]);
+
+    useEffect(() => {
+        const handleResize = () => setStageSize(window.innerWidth * window.innerHeight);
+        window.addEventListener('resize', handleResize);
+        return () => window.removeEventListener('resize', handleResize);
+    }, []);
+
+    const repeat = tiled ? 3 : 1;
+    const content = natural ? { width: natural.width * repeat, height: natural.height * repeat } : null;
+
+    const fitView = (): ViewTransform => {
+        const rect = stageRef.current?.getBoundingClientRect();
+        if (!rect || !content) return { scale: 1, x: 0, y: 0 };
+        const scale = Math.min(rect.width / content.width, rect.height / content.height, 1);
+        return { scale, x: (rect.width - content.width * scale) / 2, y: (rect.height - content.height * scale) / 2 };
+    };
+
+    const current = view ?? fitView();
+
+    // Zooms while keeping the stage point under (clientX, clientY) fixed.
+    const zoomAt = (factor: number, clientX?: number, clientY?: number) => {
+        const rect = stageRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        const px = (clientX ?? rect.left + rect.width / 2) - rect.left;
+        const py = (clientY ?? rect.top + rect.height / 2) - rect.top;
+        setView(prev => {
+            const base = prev ?? fitView();
+            const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, base.scale * factor));
+            const ratio = scale / base.scale;
+            return { scale, x: px - (px - base.x) * ratio, y: py - (py - base.y) * ratio };
+        });
+    };
+
+    const showActualSize = () => {
+        const rect = stageRef.current?.getBoundingClientRect();
+        if (!rect || !content) return;
+        setView({ scale: 1, x: (rect.width - content.width) / 2, y: (rect.height - content.height) / 2 });
+    };
+
+    // React registers wheel listeners as passive, so preventDefault needs a native listener.
+    useEffect(() => {
+        const stage = stageRef.current;
+        if (!stage) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            zoomAt(Math.exp(-e.deltaY * 0.002), e.clientX, e.clientY);
+        };
+        stage.addEventListener('wheel', handleWheel, { passive: false });
+        return () => stage.removeEventListener('wheel', handleWheel);
+    }, [natural, tiled]);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const previous = pointers.current.get(e.pointerId);
+        if (!previous) return;
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+        if (pointers.current.size === 1) {
+            const dx = e.clientX - previous.x;
+            const dy = e.clientY - previous.y;
+            setView(prev => {
+                const base = prev ?? fitView();
+                return { ...base, x: base.x + dx, y: base.y + dy };
+            });
+        } else if (pointers.current.size === 2) {
+            const [a, b] = [...pointers.current.values()];
+            const distance = Math.hypot(a.x - b.x, a.y - b.y);
+            if (lastPinchDistance.current) {
+                zoomAt(distance / lastPinchDistance.current, (a.x + b.x) / 2, (a.y + b.y) / 2);
+            }
+            lastPinchDistance.current = distance;
+        }
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        pointers.current.delete(e.pointerId);
+        lastPinchDistance.current = null;
+    };
+
+    const transform = `translate(${current.x}px, ${current.y}px) scale(${current.scale})`;
+    const showGrid = pixelGrid && current.scale >= PIXEL_GRID_MIN_ZOOM && content;
+
+    return (
+        <div className="zoomable-image">
+            <div className="viewer-toolbar">
+                <button onClick={() => setView(null)} className={view === null ? 'active' : ''}>Vừa khung</button>
+                <button onClick={showActualSize}>1:1</button>
+                <button onClick={() => zoomAt(1 / 1.5)} aria-label="Thu nhỏ">−</button>
+                <span className="viewer-zoom">{Math.round(current.scale * 100)}%</span>
+                <button onClick={() => zoomAt(1.5)} aria-label="Phóng to">+</button>
+                <label><input type="checkbox" checked={pixelated} onChange={e => setPixelated(e.target.checked)} /> Không làm mịn</label>
+                <label><input type="checkbox" checked={checkerboard} onChange={e => setCheckerboard(e.target.checked)} /> Nền ô caro</label>
+                <label><input type="checkbox" checked={pixelGrid} onChange={e => setPixelGrid(e.target.checked)} /> Lưới điểm ảnh</label>
+                <label><input type="checkbox" checked={tiled} onChange={e => setTiled(e.target.checked)} /> Lặp 3×3</label>
+            </div>
+            <div
+                ref={stageRef}
+                className={`viewer-stage ${checkerboard ? 'checkerboard' : ''} ${pixelated ? 'pixelated' : ''}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onDoubleClick={(e) => zoomAt(2, e.clientX, e.clientY)}
+            >
+                {!natural && <div className="loader"></div>}
+                {natural && content && (tiled ? (
+                    <div
+                        className="viewer-content"
+                        role="img"
+                        aria-label={alt}
+                        style={{
+                            width: content.width,
+                            height: content.height,
+                            backgroundImage: `url("${src}")`,
+                            backgroundSize: `${natural.width}px ${natural.height}px`,
+                            transform,
+                        }}
+                    />
+                ) : (
+                    <img src={src} alt={alt} className="viewer-content" draggable={false} style={{ width: content.width, height: content.height, transform }} />
+                ))}
+                {showGrid && (
+                    <div
+                        className="viewer-pixel-grid"
+                        style={{
+                            left: current.x,
+                            top: current.y,
+                            width: content.width * current.scale,
+                            height: content.height * current.scale,
+                            backgroundSize: `${current.scale}px ${current.scale}px`,
+                        }}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+type ImageVersion = {
+    commitSha: string;
+    blobSha: string;
+    message: string;
+    author: string;
+    date: string;
+};
+
+const ImageHistoryPanel = ({ repo, token, branch, image, onRestore }: {
+    repo: string;
+    token: string;
+    branch: string;
+    image: any;
+    onRestore: (image: any, version: ImageVersion) => Promise<void>;
+}) => {
+    const [versions, setVersions] = useState<ImageVersion[] | null>(null);
+    const [selected, setSelected] = useState<ImageVersion | null>(null);
+    const [compareMode, setCompareMode] = useState<'side' | 'onion'>('side');
+    const [opacity, setOpacity] = useState(0.5);
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setVersions(null);
+        setSelected(null);
+        setError(null);
+        (async () => {
+            const commits = await githubApi.listCommits(repo, token, branch, image.path, VERSION_HISTORY_LIMIT);
+            // Commits only reference the tree, so look up which blob the path had at each one.
+            const found = await Promise.all(commits.map(async (commit: any) => {
+                const content = await githubApi.request(contentsPath(repo, image.path, commit.sha), token).catch(() => null);
+                if (!content) return null;
+                return {
+                    commitSha: commit.sha,
+                    blobSha: content.sha,
+                    message: commit.commit.message.split('\n')[0],
+                    author: commit.commit.author?.name ?? commit.author?.login ?? '',
+                    date: commit.commit.author?.date ?? '',
+                };
+            }));
+            if (!cancelled) setVersions(found.filter((version): version is ImageVersion => version !== null));
+        })().catch(error => !cancelled && setError((error as Error).message));
+        return () => { cancelled = true; };
+    }, [repo, token, branch, image.path, image.sha]);
+
+    const handleRestore = async () => {
+        if (!selected) return;
+        setIsRestoring(true);
+        await onRestore(image, selected);
+        setIsRestoring(false);
+    };
+
+    return (
+        <div className="history-panel">
+            {error && <p className="error-message">{error}</p>}
+            {versions === null && !error && <div className="loader"></div>}
+            <ul className="history-list">
+                {versions?.map(version => (
+                    <li
+                        key={version.commitSha}
+                        className={`${selected?.commitSha === version.commitSha ? 'active' : ''} ${version.blobSha === image.sha ? 'current' : ''}`}
+                        onClick={() => setSelected(version)}
+                        title={version.message}
+                    >
+                        <BlobImage repo={repo} token={token} sha={version.blobSha} path={image.path} className="history-thumb" />
+                        <span className="history-message">{version.message}</span>
+                        <span>{version.author}</span>
+                        <span>{version.date && new Date(version.date).toLocaleString()}</span>
+                    </li>
+                ))}
+            </ul>
+            {selected && (
+                <div className="history-compare">
+                    <div className="history-compare-controls">
+                        <label>
+                            <input type="radio" checked={compareMode === 'side'} onChange={() => setCompareMode('side')} />
+                            Cạnh nhau
+                        </label>
+                        <label>
+                            <input type="radio" checked={compareMode === 'onion'} onChange={() => setCompareMode('onion')} />
+                            Chồng lớp
+                        </label>
+                        {compareMode === 'onion' && (
+                            <input type="range" min={0} max={1} step={0.05} value={opacity} onChange={e => setOpacity(Number(e.target.value))} aria-label="Độ mờ phiên bản cũ" />
+                        )}
+                        <button onClick={handleRestore} disabled={isRestoring || selected.blobSha === image.sha}>
+                            {selected.blobSha === image.sha ? 'Đang là phiên bản hiện tại' : isRestoring ? 'Đang khôi phục...' : 'Khôi phục phiên bản này'}
+                        </button>
+                    </div>
+                    {compareMode === 'side' ? (
+                        <div className="history-side-by-side">
+                            <figure>
+                                <BlobImage repo={repo} token={token} sha={selected.blobSha} path={image.path} className="history-compare-image" />
+                                <figcaption>{selected.commitSha.slice(0, 7)}</figcaption>
+                            </figure>
+                            <figure>
+                                <BlobImage repo={repo} token={token} sha={image.sha} path={image.path} className="history-compare-image" />
+                                <figcaption>Hiện tại</figcaption>
+                            </figure>
+                        </div>
+                    ) : (
+                        <div className="history-onion">
+                            <BlobImage repo={repo} token={token} sha={image.sha} path={image.path} className="history-compare-image" />
+                            <div className="history-onion-layer" style={{ opacity }}>
+                                <BlobImage repo={repo} token={token} sha={selected.blobSha} path={image.path} className="history-compare-image" />
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const SharePanel = ({ library, token, image, dimensions, isLfs, onCopy }: {
+    library: Library;
+    token: string;
+    image: any;
+    dimensions: { width: number; height: number } | null;
+    isLfs: boolean;
+    onCopy: (text: string) => void;
+}) => {
+    const [style, setStyle] = useState<ShareUrlStyle>('jsdelivr');
+    const [isPrivate, setIsPrivate] = useState(false);
+    const [pagesUrl, setPagesUrl] = useState<string | null>(null);
+    const [commitSha, setCommitSha] = useState<string | null>(null);
 
-const Notification = ({ message, type, onEnd }: { message: string | null; type: 'success' | 'error'; onEnd: () => void }) => {
-    const [visible, setVisible] = useState(false);
+    useEffect(() => {
+        githubApi.request(`/${library.repo}`, token).then(info => setIsPrivate(info.private)).catch(() => {});
+        // 404 means Pages is not enabled for this repo.
+        githubApi.request(`/${library.repo}/pages`, token).then(pages => setPagesUrl(pages.html_url)).catch(() => setPagesUrl(null));
+    }, [library.repo, token]);
 
     useEffect(() => {
-        if (message) {
-            setVisible(true);
-            const timer = setTimeout(() => {
-                setVisible(false);
-                setTimeout(onEnd, 300);
-            }, 3000);
-            return () => clearTimeout(timer);
-        }
-    }, [message, onEnd]);
+        setCommitSha(null);
+        githubApi.listCommits(library.repo, token, library.branch, image.path, 1)
+            .then(commits => setCommitSha(commits[0]?.sha ?? null))
+            .catch(error => console.error(`Could not find the last commit of ${image.path}`, error));
+    }, [library.repo, library.branch, token, image.path]);
+
+    const url = buildShareUrl(style, library, image.path, pagesUrl, commitSha, isLfs);
+    const alt = image.metadata?.alt || image.name;
 
     return (
-        <div className={`notification ${type} ${visible ? 'show' : ''}`}>
-            {message}
+        <div className="share-panel">
+            {isPrivate && (
+                <p className="share-warning">
+                    Repo này là riêng tư: các liên kết công khai bên dưới sẽ không hoạt động với người không có quyền truy cập repo.
+                </p>
+            )}
+            {isLfs && style !== 'raw' && (
+                <p className="share-warning">Ảnh này lưu bằng Git LFS, kiểu liên kết này chỉ trả về tệp con trỏ LFS.</p>
+            )}
+            <div className="share-styles">
+                {SHARE_URL_STYLES.map(option => (
+                    <label key={option.style}>
+                        <input type="radio" checked={style === option.style} onChange={() => setStyle(option.style)} />
+                        {option.label}
+                    </label>
+                ))}
+            </div>
+            {style === 'raw' && <p className="share-hint">raw.githubusercontent.com không phải CDN và có thể bị giới hạn tốc độ.</p>}
+            {style === 'pages' && !pagesUrl && <p className="share-hint">GitHub Pages chưa được bật cho repo này.</p>}
+            {style === 'permalink' && <p className="share-hint">Liên kết được ghim vào phiên bản này và vẫn trỏ tới nó kể cả khi ảnh bị thay thế sau này.</p>}
+            {url && SHARE_FORMATS.map(({ format, label }) => {
+                const snippet = formatShareSnippet(format, url, alt, dimensions);
+                return (
+                    <div key={format} className="share-row">
+                        <span>{label}</span>
+                        <input type="text" readOnly value={snippet} onFocus={e => e.target.select()} aria-label={label} />
+                        <button onClick={() => onCopy(snippet)}>Sao chép</button>
+                    </div>
+                );
+            })}
         </div>
     );
 };
 
-const Login = ({ onLogin, loginError, isLoading }: { onLogin: (token: string, repo: string) => void; loginError: string | null; isLoading: boolean; }) => {
-    const [token, setToken] = useState('');
-    const [repo, setRepo] = useState('');
+const MetadataEditor = ({ image, onSave }: { image: any; onSave: (image: any, metadata: ImageMetadata) => Promise<void> }) => {
+    const metadata: ImageMetadata = image.metadata ?? EMPTY_METADATA;
+    const [tags, setTags] = useState(metadata.tags.join(', '));
+    const [caption, setCaption] = useState(metadata.caption);
+    const [alt, setAlt] = useState(metadata.alt);
+    const [isSaving, setIsSaving] = useState(false);
 
-    const handleSubmit = (e: React.FormEvent) => {
+    useEffect(() => {
+        setTags(metadata.tags.join(', '));
+        setCaption(metadata.caption);
+        setAlt(metadata.alt);
+    }, [image.path, image.metadata]);
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
-        onLogin(token, repo);
+        setIsSaving(true);
+        await onSave(image, {
+            tags: [...new Set<string>(tags.split(',').map(tag => tag.trim()).filter(Boolean))],
+            caption: caption.trim(),
+            alt: alt.trim(),
+        });
+        setIsSaving(false);
     };
 
     return (
-        <div className="login-container">
-            <form onSubmit={handleSubmit} className="login-form">
-                <h2>Đăng nhập GitHub</h2>
-                <input
-                    type="password"
-                    value={token}
-                    onChange={e => setToken(e.target.value)}
-                    placeholder="GitHub Personal Access Token"
-                    aria-label="GitHub Personal Access Token"
-                    required
-                    disabled={isLoading}
-                />
-                <input
-                    type="text"
-                    value={repo}
-                    onChange={e => setRepo(e.target.value)}
-                    placeholder="Repo (ví dụ: user/repo-name)"
-                    aria-label="GitHub Repository"
-                    pattern="^[^/]+/[^/]+$"
-                    title="Định dạng phải là 'user/repo-name'"
-                    required
-                    disabled={isLoading}
-                />
-                <button type="submit" disabled={isLoading}>
-                    {isLoading ? 'Đang kiểm tra...' : 'Đăng nhập'}
-                </button>
-                {loginError && <p className="error-message">{loginError}</p>}
-            </form>
-        </div>
+        <form className="metadata-editor" onSubmit={handleSubmit}>
+            <label>Thẻ (phân cách bằng dấu phẩy)
+                <input type="text" value={tags} onChange={e => setTags(e.target.value)} placeholder="vd: cọ, giấy, kết cấu" />
+            </label>
+            <label>Chú thích
+                <textarea value={caption} onChange={e => setCaption(e.target.value)} rows={2} />
+            </label>
+            <label>Văn bản thay thế (alt)
+                <input type="text" value={alt} onChange={e => setAlt(e.target.value)} />
+            </label>
+            <button type="submit" disabled={isSaving}>{isSaving ? 'Đang lưu...' : 'Lưu thông tin'}</button>
+        </form>
     );
 };
 
+const ImageEditor = ({ image, library, token, isLfs, onSave, onCancel }: {
+    image: any;
+    library: Library;
+    token: string;
+    isLfs: boolean;
+    onSave: (image: any, blob: Blob, targetPath: string, replace: boolean) => Promise<boolean>;
+    onCancel: () => void;
+}) => {
+    const originalType = MIME_TYPES[image.name.split('.').pop()!.toLowerCase()] ?? 'image/png';
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragStart = useRef<{ x: number; y: number } | null>(null);
+    const [history, setHistory] = useState<OffscreenCanvas[]>([]);
+    const [selection, setSelection] = useState<CropRect | null>(null);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+    const [keepAspect, setKeepAspect] = useState(true);
+    // Formats the browser cannot encode (GIF) can only be saved as a new file in another format.
+    const canEncodeOriginal = !!FORMAT_EXTENSIONS[originalType];
+    const [format, setFormat] = useState(canEncodeOriginal ? originalType : 'image/png');
+    const [saveAsNew, setSaveAsNew] = useState(!canEncodeOriginal);
+    const [newName, setNewName] = useState(() => {
+        const name = image.name.replace(/(\.[^.]+)?$/, '-edited$1');
+        return canEncodeOriginal ? name : replaceExtension(name, 'image/png');
+    });
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const current: OffscreenCanvas | undefined = history[history.length - 1];
 
-const Uploader = ({ activeFolder, onImageUpload }: { activeFolder: string; onImageUpload: (files: FileList) => void }) => {
-    const [isDragging, setIsDragging] = useState(false);
-    const fileInputRef = useRef<HTMLInputElement>(null);
+    useEffect(() => {
+        (async () => {
+            const blob = isLfs ? await lfsApi.download(image.download_url) : await githubApi.getBlob(library.repo, token, image.sha);
+            const bitmap = await createImageBitmap(blob);
+            const canvas = drawToCanvas(bitmap.width, bitmap.height, context => context.drawImage(bitmap, 0, 0));
+            bitmap.close();
+            setHistory([canvas]);
+        })().catch(error => setError((error as Error).message));
+    }, [image.sha]);
 
-    const handleDrag = (e: React.DragEvent) => {
-        e.preventDefault();
-        e.stopPropagation();
-        setIsDragging(e.type === 'dragenter' || e.type === 'dragover');
+    useEffect(() => {
+        if (!current || !canvasRef.current) return;
+        canvasRef.current.width = current.width;
+        canvasRef.current.height = current.height;
+        canvasRef.current.getContext('2d')!.drawImage(current, 0, 0);
+        setSize({ width: current.width, height: current.height });
+    }, [current]);
+
+    const apply = (next: OffscreenCanvas) => {
+        setHistory(prev => [...prev, next]);
+        setSelection(null);
     };
 
-    const handleDrop = (e: React.DragEvent) => {
-        e.preventDefault();
-        e.stopPropagation();
-        setIsDragging(false);
-        if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-            onImageUpload(e.dataTransfer.files);
+    // Maps a pointer position to image pixels, clamped to the canvas.
+    const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: Math.round(Math.min(Math.max(0, e.clientX - rect.left), rect.width) * current!.width / rect.width),
+            y: Math.round(Math.min(Math.max(0, e.clientY - rect.top), rect.height) * current!.height / rect.height),
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!current) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragStart.current = toImagePoint(e);
+        setSelection(null);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!dragStart.current || !current) return;
+        const point = toImagePoint(e);
+        const start = dragStart.current;
+        setSelection({
+            x: Math.min(start.x, point.x),
+            y: Math.min(start.y, point.y),
+            width: Math.abs(point.x - start.x),
+            height: Math.abs(point.y - start.y),
+        });
+    };
+
+    const handlePointerUp = () => {
+        dragStart.current = null;
+        setSelection(prev => prev && prev.width > 0 && prev.height > 0 ? prev : null);
+    };
+
+    const handleAutoTrim = () => {
+        if (!current) return;
+        const bounds = findOpaqueBounds(current);
+        if (!bounds) {
+            setError('Ảnh hoàn toàn trong suốt.');
+        } else if (bounds.width !== current.width || bounds.height !== current.height) {
+            apply(cropCanvas(current, bounds));
         }
     };
-    
-    const handleClick = () => fileInputRef.current?.click();
-    
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files.length > 0) {
-            onImageUpload(e.target.files);
+
+    const handleSizeChange = (dimension: 'width' | 'height', value: number) => {
+        if (!current) return;
+        if (!keepAspect) {
+            setSize(prev => ({ ...prev, [dimension]: value }));
+        } else if (dimension === 'width') {
+            setSize({ width: value, height: Math.round(value * current.height / current.width) });
+        } else {
+            setSize({ width: Math.round(value * current.width / current.height), height: value });
+        }
+    };
+
+    const handleFormatChange = (type: string) => {
+        setFormat(type);
+        setNewName(prev => replaceExtension(prev, type));
+        if (type !== originalType) setSaveAsNew(true);
+    };
+
+    const handleSave = async () => {
+        if (!current) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            if (!saveAsNew && format !== originalType) throw new Error('Đổi định dạng chỉ có thể lưu thành tệp mới.');
+            const blob = await encodeCanvas(current, format);
+            if (blob.type !== format) throw new Error(`Trình duyệt không hỗ trợ lưu định dạng ${format}.`);
+            const targetPath = saveAsNew ? joinPath(parentFolder(image.path), newName.trim()) : image.path;
+            if (await onSave(image, blob, targetPath, !saveAsNew)) onCancel();
+        } catch (error) {
+            setError((error as Error).message);
+        } finally {
+            setIsSaving(false);
         }
     };
 
+    const busy = !current || isSaving;
+
     return (
-        <>
-            <h3>Tải lên "{activeFolder}"</h3>
-            <div
-                className={`uploader-zone ${isDragging ? 'drag-over' : ''}`}
-                onDragEnter={handleDrag} onDragLeave={handleDrag} onDragOver={handleDrag} onDrop={handleDrop} onClick={handleClick}
-            >
-                <input type="file" ref={fileInputRef} onChange={handleFileChange} multiple accept="image/*" style={{display: 'none'}} />
-                <p>Kéo và thả ảnh vào đây, hoặc nhấp để chọn tệp</p>
+        <div className="image-editor">
+            <div className="viewer-toolbar">
+                <button onClick={() => apply(rotateCanvas(current!, false))} disabled={busy}>⟲ 90°</button>
+                <button onClick={() => apply(rotateCanvas(current!, true))} disabled={busy}>⟳ 90°</button>
+                <button onClick={() => apply(flipCanvas(current!, true))} disabled={busy}>Lật ngang</button>
+                <button onClick={() => apply(flipCanvas(current!, false))} disabled={busy}>Lật dọc</button>
+                <button onClick={() => selection && apply(cropCanvas(current!, selection))} disabled={busy || !selection}>Cắt vùng chọn</button>
+                <button onClick={handleAutoTrim} disabled={busy}>Tự cắt viền trong suốt</button>
+                <button onClick={() => setHistory(prev => prev.slice(0, -1))} disabled={busy || history.length < 2}>Hoàn tác</button>
             </div>
-        </>
+            <div className="image-editor-stage">
+                {!current && !error && <div className="loader"></div>}
+                <div className="image-editor-canvas-wrapper">
+                    <canvas
+                        ref={canvasRef}
+                        className="image-editor-canvas"
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                    />
+                    {selection && current && (
+                        <div
+                            className="image-editor-selection"
+                            style={{
+                                left: `${(selection.x / current.width) * 100}%`,
+                                top: `${(selection.y / current.height) * 100}%`,
+                                width: `${(selection.width / current.width) * 100}%`,
+                                height: `${(selection.height / current.height) * 100}%`,
+                            }}
+                        />
+                    )}
+                </div>
+            </div>
+            <div className="image-editor-options">
+                <span>{current ? `${current.width} × ${current.height} px` : ''}{selection && ` · vùng chọn ${selection.width} × ${selection.height}`}</span>
+                <label>Rộng <input type="number" min={1} value={size.width} onChange={e => handleSizeChange('width', Number(e.target.value))} /></label>
+                <label>Cao <input type="number" min={1} value={size.height} onChange={e => handleSizeChange('height', Number(e.target.value))} /></label>
+                <label><input type="checkbox" checked={keepAspect} onChange={e => setKeepAspect(e.target.checked)} /> Giữ tỉ lệ</label>
+                <button
+                    onClick={() => apply(resizeCanvas(current!, size.width, size.height))}
+                    disabled={busy || size.width < 1 || size.height < 1 || (size.width === current?.width && size.height === current?.height)}
+                >
+                    Đổi kích thước
+                </button>
+            </div>
+            <div className="image-editor-options">
+                <label>Định dạng
+                    <select value={format} onChange={e => handleFormatChange(e.target.value)}>
+                        {Object.entries(FORMAT_EXTENSIONS).map(([type, extension]) => <option key={type} value={type}>{extension.toUpperCase()}</option>)}
+                    </select>
+                </label>
+                <label>
+                    <input type="radio" checked={!saveAsNew} onChange={() => setSaveAsNew(false)} disabled={format !== originalType} />
+                    Cập nhật ảnh này (giữ bản cũ trong lịch sử)
+                </label>
+                <label>
+                    <input type="radio" checked={saveAsNew} onChange={() => setSaveAsNew(true)} />
+                    Lưu thành tệp mới
+                </label>
+                {saveAsNew && <input type="text" value={newName} onChange={e => setNewName(e.target.value)} aria-label="Tên tệp mới" />}
+                <button onClick={onCancel} className="button-secondary">Hủy</button>
+                <button onClick={handleSave} disabled={busy || history.length < 2 && format === originalType} className="button-primary">
+                    {isSaving ? 'Đang lưu...' : 'Lưu'}
+                </button>
+            </div>
+            {error && <p className="error-message">{error}</p>}
+        </div>
     );
-}
+};
 
-const ImageViewerModal = ({ images, currentIndex, onClose, onNext, onPrev, onCopyLink }: {
+const ImageViewerModal = ({ images, currentIndex, onClose, onNext, onPrev, onCopyLink, library, token, lfsPatterns, onRestoreVersion, onSaveMetadata, onSaveEdit }: {
     images: any[];
     currentIndex: number;
     onClose: () => void;
     onNext: () => void;
     onPrev: () => void;
     onCopyLink: (url: string) => void;
+    library: Library;
+    token: string;
+    lfsPatterns: RegExp[];
+    onRestoreVersion: (image: any, version: ImageVersion) => Promise<void>;
+    onSaveMetadata: (image: any, metadata: ImageMetadata) => Promise<void>;
+    onSaveEdit: (image: any, blob: Blob, targetPath: string, replace: boolean) => Promise<boolean>;
 }) => {
     const image = images[currentIndex];
+    const [showHistory, setShowHistory] = useState(false);
+    const [showMetadata, setShowMetadata] = useState(false);
+    const [showShare, setShowShare] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(null);
+
+    useEffect(() => setDimensions(null), [image?.download_url]);
+    useEffect(() => setIsEditing(false), [image?.path]);
 
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key === 'Escape') onClose();
+            // While typing (caption, tags, editor fields) Escape only leaves the field.
+            const field = (e.target as HTMLElement | null)?.closest('input, textarea, [contenteditable="true"]');
+            if (field) {
+                if (e.key === 'Escape') (field as HTMLElement).blur();
+                return;
+            }
+            if (e.key === 'Escape') isEditing ? setIsEditing(false) : onClose();
+            if (isEditing) return;
             if (e.key === 'ArrowRight') onNext();
             if (e.key === 'ArrowLeft') onPrev();
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [onClose, onNext, onPrev]);
+    }, [onClose, onNext, onPrev, isEditing]);
 
     if (!image) return null;
 
@@ -178,11 +3592,45 @@ const ImageViewerModal = ({ images, currentIndex, onClose, onNext, onPrev, onCop
         <div className="modal-overlay" onClick={onClose}>
             <div className="modal-content" onClick={(e) => e.stopPropagation()}>
                 <button className="modal-close-button" onClick={onClose} aria-label="Đóng">×</button>
-                <img src={image.download_url} alt={image.name} className="modal-image" />
+                {isEditing ? (
+                    <ImageEditor
+                        image={image}
+                        library={library}
+                        token={token}
+                        isLfs={isLfsPath(image.path, lfsPatterns)}
+                        onSave={onSaveEdit}
+                        onCancel={() => setIsEditing(false)}
+                    />
+                ) : (
+                    <ZoomableImage src={image.download_url} alt={image.metadata?.alt || image.name} onLoad={setDimensions} />
+                )}
+                {image.metadata?.caption && <p className="modal-caption">{image.metadata.caption}</p>}
                 <div className="modal-info">
                     <p title={image.name}>{image.name}</p>
+                    <span className="modal-image-meta">
+                        {dimensions && `${dimensions.width} × ${dimensions.height} px`}
+                        {image.size !== undefined && ` · ${formatBytes(image.size)}`}
+                    </span>
                     <button onClick={() => onCopyLink(image.download_url)}>Sao chép URL</button>
+                    <button onClick={() => setIsEditing(prev => !prev)}>{isEditing ? 'Thoát chỉnh sửa' : 'Chỉnh sửa'}</button>
+                    <button onClick={() => setShowShare(prev => !prev)}>{showShare ? 'Ẩn chia sẻ' : 'Chia sẻ'}</button>
+                    <button onClick={() => setShowMetadata(prev => !prev)}>{showMetadata ? 'Ẩn thông tin' : 'Thông tin'}</button>
+                    <button onClick={() => setShowHistory(prev => !prev)}>{showHistory ? 'Ẩn lịch sử' : 'Lịch sử'}</button>
                 </div>
+                {showShare && (
+                    <SharePanel
+                        library={library}
+                        token={token}
+                        image={image}
+                        dimensions={dimensions}
+                        isLfs={isLfsPath(image.path, lfsPatterns)}
+                        onCopy={onCopyLink}
+                    />
+                )}
+                {showMetadata && <MetadataEditor image={image} onSave={onSaveMetadata} />}
+                {showHistory && (
+                    <ImageHistoryPanel repo={library.repo} token={token} branch={library.branch} image={image} onRestore={onRestoreVersion} />
+                )}
                 <button className="modal-nav-button prev" onClick={onPrev} disabled={currentIndex === 0} aria-label="Ảnh trước">‹</button>
                 <button className="modal-nav-button next" onClick={onNext} disabled={currentIndex === images.length - 1} aria-label="Ảnh kế tiếp">›</button>
             </div>
@@ -190,12 +3638,90 @@ const ImageViewerModal = ({ images, currentIndex, onClose, onNext, onPrev, onCop
     );
 };
 
-const ConfirmationModal = ({ isOpen, onClose, onConfirm, title, children }: {
+type BulkAction = { kind: 'delete' } | { kind: 'move'; target: string } | { kind: 'tag'; tag: string };
+
+type OperationStatus = {
+    title: string;
+    progress: CommitProgress | null;
+    result?: { type: 'success' | 'error'; message: string; details: string[] };
+};
+
+const OperationPanel = ({ status, onDismiss }: { status: OperationStatus | null; onDismiss: () => void }) => {
+    if (!status) return null;
+
+    const currentIndex = status.progress ? COMMIT_STAGES.findIndex(s => s.stage === status.progress!.stage) : -1;
+    const percent = status.result ? 100 : Math.round(((currentIndex + 1) / COMMIT_STAGES.length) * 100);
+
+    return (
+        <div className={`operation-panel ${status.result?.type ?? ''}`} role="status">
+            <div className="operation-panel-header">
+                <strong>{status.title}</strong>
+                {status.result && <button onClick={onDismiss} className="operation-panel-close" aria-label="Đóng">×</button>}
+            </div>
+            <div className="progress-bar"><div className="progress-bar-fill" style={{ width: `${percent}%` }}></div></div>
+            {!status.result && status.progress && (
+                <p className="operation-panel-stage">
+                    {COMMIT_STAGES[currentIndex].label}...
+                    {status.progress.attempt > 1 && ` (thử lại lần ${status.progress.attempt})`}
+                </p>
+            )}
+            {status.result && (
+                <>
+                    <p>{status.result.message}</p>
+                    {status.result.details.length > 0 && (
+                        <ul className="operation-panel-details">
+                            {status.result.details.map(detail => <li key={detail}>{detail}</li>)}
+                        </ul>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+const BulkActionBar = ({ count, total, folders, isBusy, onSelectAll, onClear, onDelete, onMove, onTag, onDownload, onCopyLinks }: {
+    count: number;
+    total: number;
+    folders: string[];
+    isBusy: boolean;
+    onSelectAll: () => void;
+    onClear: () => void;
+    onDelete: () => void;
+    onMove: (folder: string) => void;
+    onTag: (tag: string) => void;
+    onDownload: () => void;
+    onCopyLinks: () => void;
+}) => {
+    const [tag, setTag] = useState('');
+
+    return (
+        <div className="bulk-action-bar" role="toolbar" aria-label="Thao tác hàng loạt">
+            <span>Đã chọn {count}/{total}</span>
+            {count < total && <button onClick={onSelectAll}>Chọn tất cả</button>}
+            <button onClick={onClear}>Bỏ chọn</button>
+            <span className="bulk-action-separator" />
+            <button onClick={onCopyLinks}>Sao chép liên kết</button>
+            <button onClick={onDownload} disabled={isBusy}>{isBusy ? 'Đang nén...' : 'Tải ZIP'}</button>
+            <select value="" onChange={e => e.target.value && onMove(e.target.value)} aria-label="Chuyển sang thư mục">
+                <option value="">Chuyển đến...</option>
+                {folders.map(folder => <option key={folder} value={folder}>{folder}</option>)}
+            </select>
+            <form onSubmit={(e) => { e.preventDefault(); if (tag.trim()) { onTag(tag.trim()); setTag(''); } }}>
+                <input type="text" value={tag} onChange={e => setTag(e.target.value)} placeholder="Thêm thẻ..." aria-label="Thêm thẻ" />
+            </form>
+            <button onClick={onDelete} className="bulk-delete">Xóa</button>
+        </div>
+    );
+};
+
+const ConfirmationModal = ({ isOpen, onClose, onConfirm, title, children, confirmLabel = 'Xóa', variant = 'danger' }: {
     isOpen: boolean;
     onClose: () => void;
     onConfirm: () => void;
     title: string;
     children: React.ReactNode;
+    confirmLabel?: string;
+    variant?: 'danger' | 'primary';
 }) => {
     useEffect(() => {
         if (!isOpen) return;
@@ -217,7 +3743,7 @@ const ConfirmationModal = ({ isOpen, onClose, onConfirm, title, children }: {
                 </div>
                 <div className="confirmation-modal-buttons">
                     <button onClick={onClose} className="button-secondary">Hủy</button>
-                    <button onClick={onConfirm} className="button-danger">Xóa</button>
+                    <button onClick={onConfirm} className={`button-${variant}`}>{confirmLabel}</button>
                 </div>
             </div>
         </div>
@@ -227,16 +3753,42 @@ const ConfirmationModal = ({ isOpen, onClose, onConfirm, title, children }: {
 const App = () => {
     const [isAuthenticated, setIsAuthenticated] = useState(false);
     const [loginError, setLoginError] = useState<string | null>(null);
-    const [config, setConfig] = useState<{ token: string; repo: string } | null>(null);
+    const [config, setConfig] = useState<{ token: string; repo: string; branch: string } | null>(null);
+    const [libraries, setLibraries] = useState<Library[]>(loadLibraries);
+    const [reviewMode, setReviewMode] = useState(() => localStorage.getItem('review_mode') === 'true');
+    const [isReviewOpen, setIsReviewOpen] = useState(false);
+    const [isTrashOpen, setIsTrashOpen] = useState(false);
+    const [isSimilarOpen, setIsSimilarOpen] = useState(false);
+    const [isAtlasOpen, setIsAtlasOpen] = useState(false);
+    const [similarPlan, setSimilarPlan] = useState<{ resolutions: SimilarResolution[]; merge: boolean } | null>(null);
+    const [searchQuery, setSearchQuery] = useState<SearchQuery>(() => readSearchQuery(window.location.search));
+    const [searchResults, setSearchResults] = useState<any[] | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    const [tagFilter, setTagFilter] = useState('');
+    const [selectedPaths, setSelectedPaths] = useState<string[]>([]);
+    const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+    const [isZipping, setIsZipping] = useState(false);
+    const [pendingUploads, setPendingUploads] = useState<{ conflicts: UploadConflict[]; takenPaths: Set<string>; options: ProcessingOptions } | null>(null);
+    const [selectionBox, setSelectionBox] = useState<{ x0: number; y0: number; x1: number; y1: number; base: string[] } | null>(null);
+    const lastSelectedPath = useRef<string | null>(null);
+    const galleryRef = useRef<HTMLDivElement>(null);
+    const searchActive = isSearchActive(searchQuery);
+    const [unlockRepo, setUnlockRepo] = useState<string | null>(null);
+    const [tokenWarnings, setTokenWarnings] = useState<string[]>([]);
 
-    const [folders, setFolders] = useState<string[]>([]);
+    const [folderTree, setFolderTree] = useState<FolderTree>({});
+    const [expandedFolders, setExpandedFolders] = useState<string[]>([]);
     const [images, setImages] = useState<any[]>([]);
     const [activeFolder, setActiveFolder] = useState<string | null>(null);
     
     const [isLoading, setIsLoading] = useState(true);
     const [isUploading, setIsUploading] = useState(false);
+    const [uploadQueue, setUploadQueue] = useState<UploadItem[]>([]);
+    const [cacheStatus, setCacheStatus] = useState<'fresh' | 'stale' | 'offline'>('fresh');
+    const [lfsPatterns, setLfsPatterns] = useState<RegExp[]>([]);
+    const [processingOptions, setProcessingOptions] = useState<ProcessingOptions>(DEFAULT_PROCESSING_OPTIONS);
     
-    const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+    const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error'; action?: NotificationAction } | null>(null);
 
     const [currentPage, setCurrentPage] = useState(1);
     const [renamingFolder, setRenamingFolder] = useState<string | null>(null);
@@ -245,31 +3797,38 @@ const App = () => {
     const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
     const [imageToDelete, setImageToDelete] = useState<any | null>(null);
     const [folderToDelete, setFolderToDelete] = useState<string | null>(null);
+    const [dropTargetFolder, setDropTargetFolder] = useState<string | null>(null);
+    const [operation, setOperation] = useState<OperationStatus | null>(null);
     const renameInputRef = useRef<HTMLInputElement>(null);
     
     // Check local storage for credentials on initial load
     useEffect(() => {
-        const storedToken = localStorage.getItem('github_token');
+        const storedToken = tokenStorage.load();
         const storedRepo = localStorage.getItem('github_repo');
+        const storedBranch = localStorage.getItem('github_branch');
 
         const validateAndSetConfig = async (token: string, repo: string) => {
             try {
                 // Test request to validate credentials
-                await githubApi.request(`/${repo}`, token);
-                setConfig({ token, repo });
+                const info = await githubApi.request(`/${repo}`, token);
+                setConfig({ token, repo, branch: storedBranch || info.default_branch });
                 setIsAuthenticated(true);
             } catch (error) {
                 // Credentials might be invalid, clear them
-                localStorage.removeItem('github_token');
+                tokenStorage.clear();
                 localStorage.removeItem('github_repo');
+                localStorage.removeItem('github_branch');
                 setLoginError('Token hoặc repo đã lưu không hợp lệ. Vui lòng đăng nhập lại.');
             } finally {
                 setIsLoading(false);
             }
         };
 
-        if (storedToken && storedRepo) {
-            validateAndSetConfig(storedToken, storedRepo);
+        if (storedToken && 'token' in storedToken && storedRepo) {
+            validateAndSetConfig(storedToken.token, storedRepo);
+        } else if (storedToken && storedRepo) {
+            setUnlockRepo(storedRepo);
+            setIsLoading(false);
         } else {
             setIsLoading(false); // No credentials, just show login
         }
@@ -279,45 +3838,128 @@ const App = () => {
         renameInputRef.current?.focus();
     }, [renamingFolder]);
 
-    const showNotification = (message: string, type: 'success' | 'error') => {
-        setNotification({ message, type });
+    const showNotification = (message: string, type: 'success' | 'error', action?: NotificationAction) => {
+        setNotification({ message, type, action });
     };
 
-    const handleLogin = async (token: string, repo: string) => {
+    const handleLogin = async (token: string, repo: string, mode: TokenStorageMode, passphrase: string) => {
         setIsLoading(true);
         setLoginError(null);
         try {
-            await githubApi.request(`/${repo}`, token); // Test request
-            localStorage.setItem('github_token', token);
-            localStorage.setItem('github_repo', repo);
-            setConfig({ token, repo });
+            const warnings = await githubApi.checkAccess(repo, token);
+            const branch = await githubApi.getDefaultBranch(repo, token);
+            await tokenStorage.save(token, mode, passphrase);
+            setTokenWarnings(warnings);
+            rememberLibrary({ repo, branch });
+            setConfig({ token, repo, branch });
             setIsAuthenticated(true);
         } catch (error) {
-            setLoginError(`Đăng nhập thất bại: Token hoặc repo không đúng.`);
+            setLoginError(`Đăng nhập thất bại: ${(error as Error).message}`);
             setIsAuthenticated(false);
         } finally {
             setIsLoading(false);
         }
     };
+
+    const handleUnlock = async (passphrase: string) => {
+        if (!unlockRepo) return;
+        setIsLoading(true);
+        setLoginError(null);
+        try {
+            const token = await tokenStorage.unlock(passphrase);
+            setTokenWarnings(await githubApi.checkAccess(unlockRepo, token));
+            const branch = localStorage.getItem('github_branch') || await githubApi.getDefaultBranch(unlockRepo, token);
+            setConfig({ token, repo: unlockRepo, branch });
+            setUnlockRepo(null);
+            setIsAuthenticated(true);
+        } catch (error) {
+            setLoginError((error as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleForgetStoredToken = () => {
+        tokenStorage.clear();
+        localStorage.removeItem('github_repo');
+        localStorage.removeItem('github_branch');
+        setUnlockRepo(null);
+        setLoginError(null);
+    };
     
+    const resetLibraryState = () => {
+        setFolderTree({});
+        setExpandedFolders([]);
+        setImages([]);
+        setActiveFolder(null);
+        setUploadQueue([]);
+        setLfsPatterns([]);
+    };
+
+    // Saves the library as a profile and makes it the one restored on next load.
+    const rememberLibrary = (library: Library) => {
+        localStorage.setItem('github_repo', library.repo);
+        localStorage.setItem('github_branch', library.branch);
+        setLibraries(prev => {
+            if (prev.some(l => l.repo === library.repo && l.branch === library.branch)) return prev;
+            const next = [...prev, library];
+            saveLibraries(next);
+            return next;
+        });
+    };
+
+    const handleSwitchLibrary = async (library: Library) => {
+        if (!config || (library.repo === config.repo && library.branch === config.branch)) return;
+        setIsLoading(true);
+        try {
+            if (library.repo !== config.repo) {
+                setTokenWarnings(await githubApi.checkAccess(library.repo, config.token));
+            }
+            resetLibraryState();
+            rememberLibrary(library);
+            setConfig({ token: config.token, ...library });
+        } catch (error) {
+            showNotification(`Không thể mở ${library.repo}@${library.branch}: ${(error as Error).message}`, 'error');
+            setIsLoading(false);
+        }
+    };
+
+    const handleRemoveLibrary = (library: Library) => {
+        setLibraries(prev => {
+            const next = prev.filter(l => l.repo !== library.repo || l.branch !== library.branch);
+            saveLibraries(next);
+            return next;
+        });
+    };
+
     const handleLogout = () => {
-        localStorage.removeItem('github_token');
+        tokenStorage.clear();
         localStorage.removeItem('github_repo');
+        localStorage.removeItem('github_branch');
+        setTokenWarnings([]);
         setConfig(null);
         setIsAuthenticated(false);
-        setFolders([]);
-        setImages([]);
-        setActiveFolder(null);
+        resetLibraryState();
+        folderImageCache.clear();
+        offlineCache.clear();
         setLoginError(null);
     };
     
+    const loadSubfolders = useCallback(async (parent: string): Promise<string[]> => {
+        if (!config) return [];
+        const contents = await githubApi.request(contentsPath(config.repo, parent, config.branch), config.token);
+        const subfolders: string[] = contents
+            .filter((item: any) => item.type === 'dir' && item.name !== THUMBNAIL_DIR)
+            .map((item: any) => item.path);
+        setFolderTree(prev => ({ ...prev, [parent]: subfolders }));
+        return subfolders;
+    }, [config]);
+
     const loadFolders = useCallback(async () => {
         if (!config) return;
         setIsLoading(true);
         try {
-            const contents = await githubApi.request(`/${config.repo}/contents/`, config.token);
-            const folderData = contents.filter((item: any) => item.type === 'dir').map((item: any) => item.name);
-            setFolders(folderData);
+            const folderData = await loadSubfolders('');
             if (folderData.length > 0 && !activeFolder) {
                 setActiveFolder(folderData[0]);
             }
@@ -326,7 +3968,7 @@ const App = () => {
         } finally {
             setIsLoading(false);
         }
-    }, [config, activeFolder]);
+    }, [config, activeFolder, loadSubfolders]);
     
     useEffect(() => {
         if (config) {
@@ -334,38 +3976,109 @@ const App = () => {
         }
     }, [config, loadFolders]);
 
-    const loadImagesForFolder = useCallback(async (folderName: string) => {
+    const folders = folderTree[''] ?? [];
+
+    const selectFolder = (path: string) => {
+        setActiveFolder(path);
+        setExpandedFolders(prev => [...new Set([...prev, ...ancestorFolders(path)])]);
+    };
+
+    const handleToggleFolder = (path: string) => {
+        if (expandedFolders.includes(path)) {
+            setExpandedFolders(prev => prev.filter(folder => folder !== path));
+            return;
+        }
+        setExpandedFolders(prev => [...prev, path]);
+        if (!folderTree[path]) {
+            loadSubfolders(path).catch(error => showNotification(`Lỗi tải thư mục: ${(error as Error).message}`, 'error'));
+        }
+    };
+
+    useEffect(() => {
+        if (!config) return;
+        lfsApi.getPatterns(config.repo, config.token, config.branch).then(setLfsPatterns).catch(error => {
+            console.error('Could not read .gitattributes', error);
+        });
+    }, [config]);
+
+    const loadImagesForFolder = useCallback(async (folderName: string, force = false) => {
         if (!config) return;
-        setIsLoading(true);
         setCurrentPage(1);
-        setImages([]);
+        const library = libraryKey(config.repo, config.branch);
+        const cached = folderImageCache.get(`${library}:${folderName}`);
+        if (cached && !force) {
+            setImages(cached);
+            setCacheStatus('fresh');
+            return;
+        }
+        setIsLoading(true);
+        const persisted = force ? undefined : await offlineCache.get<any[]>('listings', `${library}:${folderName}`);
+        setImages(persisted ?? []);
+        setCacheStatus(persisted ? 'stale' : 'fresh');
         try {
-            const contents = await githubApi.request(`/${config.repo}/contents/${folderName}`, config.token);
-            const imageData = contents.filter((item: any) => item.type === 'file' && /\.(jpg|jpeg|png|gif|webp)$/i.test(item.name));
-
-            const imagesWithDates = await Promise.all(
-                imageData.map(async (image: any) => {
-                    try {
-                        const commits = await githubApi.request(`/${config.repo}/commits?path=${image.path}&per_page=1`, config.token);
-                        const commitDate = commits[0]?.commit?.author?.date;
-                        return { ...image, commitDate: commitDate || new Date(0).toISOString() };
-                    } catch (error) {
-                        console.error(`Could not fetch commit for ${image.name}`, error);
-                        return { ...image, commitDate: new Date(0).toISOString() };
-                    }
-                })
-            );
-
-            setImages(imagesWithDates);
+            setImages(await loadFolderImages(config.repo, config.token, config.branch, folderName));
+            setCacheStatus('fresh');
         } catch (error) {
-             setImages([]); // Folder might be empty or not found
+            if (persisted) {
+                setCacheStatus('offline');
+            } else {
+                setImages([]); // Folder might be empty or not found
+            }
         } finally {
             setIsLoading(false);
         }
     }, [config]);
 
+    useEffect(() => {
+        writeSearchQuery(searchQuery);
+        if (!config || !isSearchActive(searchQuery)) {
+            setSearchResults(null);
+            setIsSearching(false);
+            return;
+        }
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            setIsSearching(true);
+            try {
+                const results = await searchImages(config.repo, config.token, config.branch, searchQuery, lfsPatterns, controller.signal);
+                if (!controller.signal.aborted) {
+                    setSearchResults(results);
+                    setCurrentPage(1);
+                }
+            } catch (error) {
+                if (!controller.signal.aborted) showNotification(`Lỗi tìm kiếm: ${(error as Error).message}`, 'error');
+            } finally {
+                if (!controller.signal.aborted) setIsSearching(false);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+        return () => {
+            controller.abort();
+            clearTimeout(timer);
+        };
+    }, [config, searchQuery, lfsPatterns]);
+
+    const handleOpenResultFolder = (path: string) => {
+        setSearchQuery(EMPTY_SEARCH);
+        selectFolder(parentFolder(path));
+    };
+
+    const visibleImages = useMemo(() => searchActive ? searchResults ?? [] : images, [searchActive, searchResults, images]);
+
+    const availableTags = useMemo(
+        () => [...new Set<string>(visibleImages.flatMap(image => image.metadata?.tags ?? []))].sort((a, b) => a.localeCompare(b)),
+        [visibleImages],
+    );
+
+    useEffect(() => {
+        if (tagFilter && !availableTags.includes(tagFilter)) setTagFilter('');
+    }, [availableTags, tagFilter]);
+
     const sortedImages = useMemo(() => {
-        const sortableImages = [...images];
+        const sortableImages = visibleImages
+            .filter(image => !tagFilter || image.metadata?.tags.includes(tagFilter))
+            .map(image => isLfsPath(image.path, lfsPatterns)
+            ? { ...image, download_url: lfsApi.mediaUrl(config!.repo, config!.branch, image.path) }
+            : image);
         switch (sortOrder) {
             case 'name-asc':
                 return sortableImages.sort((a, b) => a.name.localeCompare(b.name));
@@ -377,7 +4090,7 @@ const App = () => {
             default:
                 return sortableImages.sort((a, b) => new Date(b.commitDate).getTime() - new Date(a.commitDate).getTime());
         }
-    }, [images, sortOrder]);
+    }, [visibleImages, tagFilter, sortOrder, lfsPatterns, config]);
 
     const totalPages = Math.ceil(sortedImages.length / IMAGES_PER_PAGE);
     const paginatedImages = sortedImages.slice((currentPage - 1) * IMAGES_PER_PAGE, currentPage * IMAGES_PER_PAGE);
@@ -385,35 +4098,169 @@ const App = () => {
     useEffect(() => {
         if (activeFolder) {
             loadImagesForFolder(activeFolder);
+            loadSubfolders(activeFolder).catch(error => console.error(`Could not load subfolders of ${activeFolder}`, error));
         } else {
             setImages([]);
         }
-    }, [activeFolder, loadImagesForFolder]);
+    }, [activeFolder, loadImagesForFolder, loadSubfolders]);
+
+    useEffect(() => {
+        if (config && activeFolder) {
+            setProcessingOptions(loadProcessingOptions(config.repo, activeFolder));
+        }
+    }, [config, activeFolder]);
+
+    const handleProcessingOptionsChange = (options: ProcessingOptions) => {
+        setProcessingOptions(options);
+        if (config && activeFolder) {
+            saveProcessingOptions(config.repo, activeFolder, options);
+        }
+    };
+
+    const handleToggleReviewMode = (enabled: boolean) => {
+        setReviewMode(enabled);
+        localStorage.setItem('review_mode', String(enabled));
+    };
+
+    // Commits straight to the library branch, or in review mode to a new branch with a pull request.
+    const commitChanges = async (
+        message: string,
+        buildChanges: (tree: GitTreeEntry[]) => GitTreeEntry[] | Promise<GitTreeEntry[]>,
+        onProgress?: (progress: CommitProgress) => void,
+    ): Promise<{ commit: any; pullRequest: any | null }> => {
+        if (!config) throw new Error('Chưa đăng nhập.');
+        if (!reviewMode) {
+            const commit = await githubApi.commitTreeChanges(config.repo, config.token, config.branch, message, buildChanges, onProgress);
+            return { commit, pullRequest: null };
+        }
+
+        const head = reviewBranchName(message);
+        await githubApi.createBranch(config.repo, config.token, head, config.branch);
+        let changes: GitTreeEntry[] = [];
+        let commit: any;
+        let pullRequest: any;
+        try {
+            commit = await githubApi.commitTreeChanges(config.repo, config.token, head, message, async tree => {
+                changes = await buildChanges(tree);
+                return changes;
+            }, onProgress);
+            if (!commit) {
+                await githubApi.deleteBranch(config.repo, config.token, head);
+                return { commit: null, pullRequest: null };
+            }
+            pullRequest = await githubApi.createPullRequest(config.repo, config.token, {
+                title: message,
+                head,
+                base: config.branch,
+                body: buildPullRequestBody(config.repo, head, config.branch, changes),
+            });
+        } catch (error) {
+            // Don't leave a branch without a pull request behind.
+            await githubApi.deleteBranch(config.repo, config.token, head).catch(cleanupError =>
+                console.error(`Could not delete branch ${head}`, cleanupError));
+            throw error;
+        }
+        showNotification(`Đã mở yêu cầu duyệt #${pullRequest.number}.`, 'success');
+        return { commit, pullRequest };
+    };
+
+    // Puts previously deleted tree entries back at their original paths.
+    // `metadata` holds the index.json entries that were dropped together with the images.
+    const restoreEntries = async (entries: GitTreeEntry[], message: string, metadata = new Map<string, ImageMetadata>()) => {
+        if (!config) return false;
+        try {
+            const { commit, pullRequest } = await commitChanges(message, async tree => {
+                const existing = new Set(tree.map(entry => entry.path));
+                const restored = entries.filter(entry => !existing.has(entry.path));
+                if (restored.length === 0) return [];
+                const restoredPaths = new Set(restored.map(entry => entry.path));
+                const restoredMetadata = new Map([...metadata].filter(([path]) => restoredPaths.has(path)));
+                return [...restored, ...await buildManifestRestores(config.repo, config.token, tree, restoredMetadata)];
+            });
+            if (!commit) {
+                showNotification('Các tệp này đã tồn tại, không cần khôi phục.', 'error');
+                return false;
+            }
+            if (!pullRequest) {
+                const folders = new Set(entries.flatMap(entry => ancestorFolders(entry.path)).filter(folder => !folder.split('/').includes(THUMBNAIL_DIR)));
+                invalidateFolderImages(libraryKey(config.repo, config.branch), ...folders);
+                showNotification(`Đã khôi phục ${entries.length} tệp.`, 'success');
+                // Restored folders may be missing from the sidebar, so refresh every level above them.
+                for (const folder of ['', ...folders]) {
+                    loadSubfolders(folder).catch(error => console.error(`Could not reload ${folder}`, error));
+                }
+                if (activeFolder) loadImagesForFolder(activeFolder, true);
+            }
+            return true;
+        } catch (error) {
+            showNotification(`Lỗi khôi phục: ${(error as Error).message}`, 'error');
+            return false;
+        }
+    };
+
+    const handleRestoreFromTrash = async (entry: TrashEntry) => {
+        if (!config) return false;
+        // The deleted blob is still reachable from the parent of the deleting commit.
+        const lookup = (path: string) => githubApi.request(contentsPath(config.repo, path, entry.parentSha), config.token).catch(() => null);
+        const [file, thumbnail, manifest] = await Promise.all([
+            lookup(entry.path),
+            lookup(thumbnailPath(entry.path)),
+            lookup(manifestPath(parentFolder(entry.path))),
+        ]);
+        if (!file) {
+            showNotification(`Không tìm thấy "${entry.path}" trong commit ${entry.parentSha.slice(0, 7)}.`, 'error');
+            return false;
+        }
+        const entries: GitTreeEntry[] = [{ path: entry.path, mode: '100644', type: 'blob', sha: file.sha }];
+        if (thumbnail) {
+            entries.push({ path: thumbnailPath(entry.path), mode: '100644', type: 'blob', sha: thumbnail.sha });
+        }
+        // Metadata was dropped from index.json in the deleting commit; take it from before.
+        const metadata = new Map<string, ImageMetadata>();
+        if (manifest) {
+            const previous = await readManifest(config.repo, config.token, manifest.sha).catch(() => ({} as FolderManifest));
+            if (previous[baseName(entry.path)]) metadata.set(entry.path, previous[baseName(entry.path)]);
+        }
+        return restoreEntries(entries, `feat: Restore ${entry.path}`, metadata);
+    };
+
+    const handleRefresh = () => {
+        loadFolders();
+        for (const folder of expandedFolders) {
+            loadSubfolders(folder).catch(() => setExpandedFolders(prev => prev.filter(path => path !== folder)));
+        }
+        if (activeFolder) {
+            loadImagesForFolder(activeFolder, true);
+        }
+    };
 
     const handleAddFolder = async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
         const form = e.currentTarget;
         const input = form.elements.namedItem('folderName') as HTMLInputElement;
+        const nested = (form.elements.namedItem('nested') as HTMLInputElement | null)?.checked ?? false;
         const folderName = input.value.trim();
         if (!config || !folderName) return;
 
-        const sanitized = sanitizeFolderName(folderName);
-        if (folders.includes(sanitized)) {
-            showNotification(`Thư mục "${sanitized}" đã tồn tại.`, 'error');
+        const parent = nested && activeFolder ? activeFolder : '';
+        const path = joinPath(parent, sanitizeFolderName(folderName));
+        if ((folderTree[parent] ?? []).includes(path)) {
+            showNotification(`Thư mục "${path}" đã tồn tại.`, 'error');
             return;
         }
 
         try {
-            await githubApi.request(`/${config.repo}/contents/${sanitized}/.gitkeep`, config.token, {
+            await githubApi.request(`/${config.repo}/contents/${path}/.gitkeep`, config.token, {
                 method: 'PUT',
                 body: JSON.stringify({
-                    message: `feat: Create folder '${sanitized}'`,
-                    content: ''
+                    message: `feat: Create folder '${path}'`,
+                    content: '',
+                    branch: config.branch,
                 }),
             });
-            showNotification(`Thư mục "${sanitized}" đã được tạo.`, 'success');
-            setFolders([...folders, sanitized]);
-            setActiveFolder(sanitized);
+            showNotification(`Thư mục "${path}" đã được tạo.`, 'success');
+            setFolderTree(prev => ({ ...prev, [parent]: [...(prev[parent] ?? []), path], [path]: [] }));
+            selectFolder(path);
             input.value = '';
         } catch (error) {
             showNotification(`Không thể tạo thư mục: ${(error as Error).message}`, 'error');
@@ -426,64 +4273,90 @@ const App = () => {
         const folderName = folderToDelete;
         setFolderToDelete(null);
         setIsLoading(true);
+        setOperation({ title: `Đang xóa thư mục "${folderName}"`, progress: null });
 
+        let pendingPaths: string[] = [];
+        let removedEntries: GitTreeEntry[] = [];
         try {
-            const files = await githubApi.request(`/${config.repo}/contents/${folderName}`, config.token);
-            for (const file of files) {
-                await githubApi.request(`/${config.repo}/contents/${file.path}`, config.token, {
-                    method: 'DELETE',
-                    body: JSON.stringify({
-                        message: `feat: Delete image ${file.name}`,
-                        sha: file.sha,
-                    }),
+            const { commit, pullRequest } = await commitChanges(
+                `feat: Delete folder '${folderName}'`,
+                tree => {
+                    const changes = buildDeleteChanges(tree, folderName);
+                    pendingPaths = changes.map(change => change.path);
+                    removedEntries = tree.filter(entry => entry.type === 'blob' && pendingPaths.includes(entry.path));
+                    return changes;
+                },
+                progress => setOperation(prev => prev && { ...prev, progress }),
+            );
+            if (pullRequest) {
+                setOperation(prev => prev && {
+                    ...prev,
+                    result: { type: 'success', message: `Đã mở yêu cầu duyệt #${pullRequest.number} để xóa ${pendingPaths.length} tệp.`, details: pendingPaths },
                 });
+                return;
             }
-            showNotification(`Đã xóa thư mục: ${folderName}`, 'success');
-            const updatedFolders = folders.filter(f => f !== folderName);
-            setFolders(updatedFolders);
-            if (activeFolder === folderName) {
-                setActiveFolder(updatedFolders.length > 0 ? updatedFolders[0] : null);
+
+            setOperation(prev => prev && {
+                ...prev,
+                result: commit
+                    ? { type: 'success', message: `Đã xóa ${pendingPaths.length} tệp trong một commit.`, details: pendingPaths }
+                    : { type: 'success', message: `Thư mục "${folderName}" đã trống.`, details: [] },
+            });
+            showNotification(
+                commit ? `Đã xóa thư mục: ${folderName}` : `Đã xóa thư mục rỗng: ${folderName}`,
+                'success',
+                commit ? { label: 'Hoàn tác', onClick: () => restoreEntries(removedEntries, `feat: Restore folder '${folderName}'`) } : undefined,
+            );
+            invalidateFolderImages(libraryKey(config.repo, config.branch), folderName);
+            const parent = parentFolder(folderName);
+            const updatedSiblings = (folderTree[parent] ?? []).filter(f => f !== folderName);
+            setFolderTree(prev => removeFolderFromTree(prev, folderName));
+            setExpandedFolders(prev => prev.filter(f => !isWithinFolder(f, folderName)));
+            if (activeFolder && isWithinFolder(activeFolder, folderName)) {
+                setActiveFolder(parent || (updatedSiblings.length > 0 ? updatedSiblings[0] : null));
             }
         } catch (error) {
-            if ((error as Error).message.includes("Not Found")) {
-                 const updatedFolders = folders.filter(f => f !== folderName);
-                 setFolders(updatedFolders);
-                 if (activeFolder === folderName) {
-                    setActiveFolder(updatedFolders.length > 0 ? updatedFolders[0] : null);
-                 }
-                 showNotification(`Đã xóa thư mục rỗng: ${folderName}`, 'success');
-            } else {
-                showNotification(`Lỗi xóa thư mục ${folderName}: ${(error as Error).message}`, 'error');
-            }
+            // The tree is swapped in a single ref update, so a rejected update removes nothing.
+            setOperation(prev => prev && {
+                ...prev,
+                result: {
+                    type: 'error',
+                    message: `${(error as Error).message} Không có tệp nào bị xóa; ${pendingPaths.length} tệp vẫn còn nguyên:`,
+                    details: pendingPaths,
+                },
+            });
+            showNotification(`Lỗi xóa thư mục ${folderName}: ${(error as Error).message}`, 'error');
         } finally {
             setIsLoading(false);
         }
     };
 
-    const handleStartRename = (folderName: string) => {
-        setActiveFolder(folderName);
-        setRenamingFolder(folderName);
-        setNewFolderName(folderName);
+    const handleStartRename = (folderPath: string) => {
+        setActiveFolder(folderPath);
+        setRenamingFolder(folderPath);
+        setNewFolderName(baseName(folderPath));
     };
 
     const handleFinishRename = async () => {
         if (!renamingFolder) return;
 
-        const oldName = renamingFolder;
+        const oldPath = renamingFolder;
         const newSanitizedName = sanitizeFolderName(newFolderName.trim());
+        const parent = parentFolder(oldPath);
+        const newPath = joinPath(parent, newSanitizedName);
         
         setRenamingFolder(null);
 
-        if (!newSanitizedName || oldName === newSanitizedName) {
+        if (!newSanitizedName || oldPath === newPath) {
             return;
         }
 
-        if (folders.includes(newSanitizedName)) {
-            showNotification(`Thư mục "${newSanitizedName}" đã tồn tại.`, 'error');
+        if ((folderTree[parent] ?? []).includes(newPath)) {
+            showNotification(`Thư mục "${newPath}" đã tồn tại.`, 'error');
             return;
         }
 
-        await renameFolderOnGitHub(oldName, newSanitizedName);
+        await renameFolderOnGitHub(oldPath, newPath);
     };
 
     const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -498,26 +4371,20 @@ const App = () => {
         if (!config) return;
         setIsLoading(true);
         try {
-            const filesToMove = await githubApi.request(`/${config.repo}/contents/${oldName}`, config.token);
-
-            if (!filesToMove || filesToMove.length === 0) {
-                 await githubApi.request(`/${config.repo}/contents/${newName}/.gitkeep`, config.token, { method: 'PUT', body: JSON.stringify({ message: `feat: Create folder '${newName}'`, content: '' }) });
-            } else {
-                 for (const file of filesToMove) {
-                    const fileData = await githubApi.request(file.url, config.token);
-                    await githubApi.request(`/${config.repo}/contents/${newName}/${file.name}`, config.token, {
-                        method: 'PUT',
-                        body: JSON.stringify({ message: `refactor: Move ${file.name} to ${newName}`, content: fileData.content }),
-                    });
-                    await githubApi.request(`/${config.repo}/contents/${file.path}`, config.token, {
-                        method: 'DELETE',
-                        body: JSON.stringify({ message: `refactor: Delete ${file.name} from ${oldName}`, sha: file.sha }),
-                    });
-                }
-            }
+            const { pullRequest } = await commitChanges(
+                `refactor: Rename folder '${oldName}' to '${newName}'`,
+                tree => buildMoveChanges(tree, [{ from: oldName, to: newName }]),
+            );
+            if (pullRequest) return;
 
             showNotification(`Đã đổi tên thư mục thành "${newName}"`, 'success');
-            setFolders(prev => prev.map(f => f === oldName ? newName : f).sort());
+            invalidateFolderImages(libraryKey(config.repo, config.branch), oldName);
+            const parent = parentFolder(oldName);
+            setFolderTree(prev => {
+                const next = removeFolderFromTree(prev, oldName);
+                return { ...next, [parent]: [...(next[parent] ?? []), newName].sort() };
+            });
+            setExpandedFolders(prev => prev.filter(f => !isWithinFolder(f, oldName)));
             setActiveFolder(newName);
 
         } catch (error) {
@@ -528,65 +4395,702 @@ const App = () => {
         }
     };
 
-    const handleImageUpload = async (files: FileList) => {
-        if (!config || !activeFolder) return;
-        
+    const handleMoveImage = async (imagePath: string, targetFolder: string) => {
+        if (!config) return;
+        // Search results can come from any folder, not just the active one.
+        const image = (searchResults ?? images).find((img: any) => img.path === imagePath);
+        const sourceFolder = image && parentFolder(image.path);
+        if (!image || targetFolder === sourceFolder) return;
+
+        setIsLoading(true);
+        try {
+            const { pullRequest } = await commitChanges(
+                `refactor: Move ${image.name} to ${targetFolder}`,
+                async tree => {
+                    const moves = [{ from: image.path, to: `${targetFolder}/${image.name}` }];
+                    const manifestChanges = await buildManifestMoves(config.repo, config.token, tree, moves);
+                    if (tree.some(entry => entry.path === thumbnailPath(image.path))) {
+                        moves.push({ from: thumbnailPath(image.path), to: thumbnailPath(moves[0].to) });
+                    }
+                    return [...buildMoveChanges(tree, moves), ...manifestChanges];
+                },
+            );
+            if (pullRequest) return;
+            setImages(prev => prev.filter(img => img.path !== image.path));
+            setSearchResults(prev => prev && prev.map(img => img.path === image.path ? { ...img, path: `${targetFolder}/${image.name}` } : img));
+            invalidateFolderImages(libraryKey(config.repo, config.branch), sourceFolder, targetFolder);
+            showNotification(`Đã chuyển "${image.name}" sang "${targetFolder}"`, 'success');
+        } catch (error) {
+            showNotification(`Lỗi chuyển ảnh ${image.name}: ${(error as Error).message}`, 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const updateUploadItem = (id: string, changes: Partial<UploadItem>) => {
+        setUploadQueue(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+    };
+
+    // Creates blobs with bounded concurrency, then commits every uploaded blob at once.
+    // Resolves to whether the commit went through.
+    const processUploads = async (items: UploadItem[]): Promise<boolean> => {
+        if (!config || items.length === 0) return false;
+
         setIsUploading(true);
-        let successfulUploads = 0;
-        const fileArray = Array.from(files);
-        
-        const uploadPromises = fileArray.map(async (file) => {
-             if (images.some(img => img.name === file.name)) {
-                showNotification(`Lỗi: Ảnh "${file.name}" đã tồn tại trong thư mục này.`, 'error');
+        const blobShas = new Map<string, string>();
+        const thumbnailShas = new Map<string, string>();
+        const finalItems = new Map(items.map(item => [item.id, item]));
+        await runWithConcurrency(items, UPLOAD_CONCURRENCY, async (item) => {
+            if (item.blobSha) {
+                blobShas.set(item.id, item.blobSha);
                 return;
             }
             try {
-                const content = await fileToBase64(file);
-                const path = `${activeFolder}/${file.name}`;
-                await githubApi.request(`/${config.repo}/contents/${path}`, config.token, {
-                    method: 'PUT',
-                    body: JSON.stringify({
-                        message: `feat: Add image ${file.name}`,
-                        content,
-                    }),
-                });
-                successfulUploads++;
+                if (!item.processed) {
+                    updateUploadItem(item.id, { status: 'processing', error: undefined });
+                    const file = await processImageFile(item.file, item.options);
+                    // Keep the chosen name (auto-suffixed or replaced) and only follow a format change.
+                    const extension = file.name.slice(file.name.lastIndexOf('.'));
+                    const path = item.path.replace(/\.[^./]+$/, extension);
+                    item = { ...item, file, path, processed: true };
+                    finalItems.set(item.id, item);
+                    updateUploadItem(item.id, { file: item.file, path: item.path, processed: true });
+                }
+                updateUploadItem(item.id, { status: 'uploading', error: undefined });
+                let content: string;
+                if (isLfsPath(item.path, lfsPatterns)) {
+                    const pointer = await lfsApi.upload(config.repo, config.token, item.file);
+                    content = btoa(pointer);
+                } else if (item.file.size > MAX_BLOB_SIZE) {
+                    throw new Error(`Tệp quá lớn (${formatBytes(item.file.size)}, tối đa ${formatBytes(MAX_BLOB_SIZE)}). Hãy bật Git LFS cho loại tệp này trong .gitattributes.`);
+                } else {
+                    content = await fileToBase64(item.file);
+                }
+                const sha = await githubApi.createBlob(config.repo, config.token, content);
+                blobShas.set(item.id, sha);
+                updateUploadItem(item.id, { blobSha: sha });
+                if (typeof OffscreenCanvas !== 'undefined') {
+                    try {
+                        const thumbnail = await createThumbnail(item.file);
+                        thumbnailShas.set(item.id, await githubApi.createBlob(config.repo, config.token, await fileToBase64(thumbnail)));
+                    } catch (error) {
+                        console.error(`Could not create thumbnail for ${item.file.name}`, error);
+                    }
+                }
             } catch (error) {
-                showNotification(`Lỗi tải lên ${file.name}: ${(error as Error).message}`, 'error');
+                updateUploadItem(item.id, { status: 'failed', error: (error as Error).message });
             }
         });
 
-        await Promise.all(uploadPromises);
+        const uploaded = [...finalItems.values()].filter(item => blobShas.has(item.id));
+        let committed = false;
+        if (uploaded.length > 0) {
+            const message = uploaded.length === 1
+                ? `feat: Add image ${uploaded[0].file.name}`
+                : `feat: Add ${uploaded.length} images`;
+            try {
+                const { pullRequest } = await commitChanges(message, tree => {
+                    const current = new Map(tree.map(entry => [entry.path, entry.sha]));
+                    // A replacement that changed extension is written to a new path, which must still be free.
+                    const movesReplaced = (item: UploadItem) => !!item.replacePath && item.replacePath !== item.path;
+                    const changed = uploaded.filter(item => current.get(item.replacePath ?? item.path) !== item.replaceSha
+                        || (movesReplaced(item) && current.has(item.path)));
+                    if (changed.length > 0) {
+                        throw new Error(`Đã có thay đổi khác ở: ${changed.map(item => item.path).join(', ')}. Hãy làm mới rồi tải lên lại.`);
+                    }
+                    return uploaded.flatMap(item => {
+                        const entries: GitTreeEntry[] = [{ path: item.path, mode: '100644', type: 'blob', sha: blobShas.get(item.id)! }];
+                        if (movesReplaced(item)) {
+                            entries.push({ path: item.replacePath!, mode: '100644', type: 'blob', sha: null });
+                            if (current.has(thumbnailPath(item.replacePath!))) {
+                                entries.push({ path: thumbnailPath(item.replacePath!), mode: '100644', type: 'blob', sha: null });
+                            }
+                        }
+                        if (thumbnailShas.has(item.id)) {
+                            entries.push({ path: thumbnailPath(item.path), mode: '100644', type: 'blob', sha: thumbnailShas.get(item.id)! });
+                        }
+                        return entries;
+                    });
+                });
+                committed = true;
+                const ids = new Set(uploaded.map(item => item.id));
+                setUploadQueue(prev => prev.map(item => ids.has(item.id) ? { ...item, status: 'done' } : item));
+                if (!pullRequest) {
+                    showNotification(`Đã tải lên thành công ${uploaded.length} ảnh.`, 'success');
+                    const subfolders = [...new Set(uploaded.map(item => parentFolder(item.path)))].filter(folder => folder !== activeFolder);
+                    if (subfolders.length > 0) {
+                        invalidateFolderImages(libraryKey(config.repo, config.branch), ...subfolders);
+                        // Dropped directories may have created new folders anywhere below the active one.
+                        setFolderTree(prev => Object.fromEntries(Object.entries(prev as FolderTree).filter(([parent]) => !parent.startsWith(`${activeFolder}/`))));
+                        if (activeFolder) loadSubfolders(activeFolder).catch(() => {});
+                    }
+                    if (activeFolder) loadImagesForFolder(activeFolder, true);
+                }
+            } catch (error) {
+                // Blobs stay on GitHub, so a retry only has to commit them again.
+                for (const item of uploaded) {
+                    updateUploadItem(item.id, { status: 'failed', error: (error as Error).message });
+                }
+                showNotification(`Lỗi tải lên: ${(error as Error).message}`, 'error');
+            }
+        } else {
+            showNotification('Không tải lên được ảnh nào.', 'error');
+        }
         setIsUploading(false);
+        return committed;
+    };
 
-        if (successfulUploads > 0) {
-            showNotification(`Đã tải lên thành công ${successfulUploads} ảnh.`, 'success');
-            if(activeFolder) {
-                loadImagesForFolder(activeFolder);
-            }
+    // Processes the dropped files and checks them against the whole repo: a name clash in the
+    // target folder, identical content anywhere else or a size change from processing shows
+    // the review modal before anything is uploaded. Resolves to whether the files were committed;
+    // files left waiting in the review modal are not (yet).
+    const handleImageUpload = async (sources: UploadSource[]): Promise<boolean> => {
+        if (!config || !activeFolder) return false;
+        if (isUploading) {
+            showNotification('Đang tải lên, hãy đợi xong rồi thử lại.', 'error');
+            return false;
+        }
+
+        let tree: GitTreeEntry[];
+        try {
+            ({ tree } = await githubApi.getHead(config.repo, config.token, config.branch));
+        } catch (error) {
+            showNotification(`Lỗi đọc repo: ${(error as Error).message}`, 'error');
+            return false;
+        }
+        const pathsBySha = new Map<string, string[]>();
+        for (const entry of tree) {
+            if (entry.type !== 'blob' || !isAssetPath(entry.path)) continue;
+            pathsBySha.set(entry.sha!, [...(pathsBySha.get(entry.sha!) ?? []), entry.path]);
+        }
+        const existing = new Map(tree.map(entry => [entry.path, entry.sha!]));
+
+        // Stored blobs are the processed output, so duplicates are looked up by the processed
+        // bytes (and the original ones, for files committed without processing).
+        const options = processingOptions;
+        setIsUploading(true);
+        const conflicts: UploadConflict[] = [];
+        await runWithConcurrency(sources.map((source, index) => ({ ...source, index })), UPLOAD_CONCURRENCY, async ({ file, folder, index }) => {
+            const processed = await processImageFile(file, options).catch(error => {
+                console.error(`Could not process ${file.name}`, error);
+                return undefined;
+            });
+            const path = joinPath(activeFolder, joinPath(folder, (processed ?? file).name));
+            const existingPath = [path, joinPath(activeFolder, joinPath(folder, file.name))].find(candidate => existing.has(candidate));
+            const shas = new Set([await gitBlobSha(file), ...(processed ? [await gitBlobSha(processed)] : [])]);
+            const duplicates = [...new Set([...shas].flatMap(sha => pathsBySha.get(sha) ?? []))];
+            conflicts[index] = { file, processed, path, existingPath, existingSha: existingPath && existing.get(existingPath), duplicates };
+        });
+        setIsUploading(false);
+        const takenPaths = new Set(existing.keys());
+        if (conflicts.some(conflict => conflict.existingSha || conflict.duplicates.length > 0 || isReprocessed(conflict))) {
+            setPendingUploads({ conflicts, takenPaths, options });
+            return false;
+        }
+        return startUploads(conflicts, conflicts.map(() => 'upload'), takenPaths, options);
+    };
+
+    const startUploads = async (conflicts: UploadConflict[], resolutions: UploadResolution[], takenPaths: Set<string>, options: ProcessingOptions) => {
+        const taken = new Set(takenPaths);
+        const items: UploadItem[] = [];
+        conflicts.forEach((conflict, index) => {
+            const resolution = resolutions[index];
+            if (resolution === 'skip') return;
+            const path = resolution === 'rename' ? uniquePath(conflict.path, taken) : conflict.path;
+            taken.add(path);
+            items.push({
+                id: `${Date.now()}-${items.length}-${conflict.file.name}`,
+                file: conflict.processed ?? conflict.file,
+                path,
+                status: 'queued',
+                originalSize: conflict.file.size,
+                options,
+                processed: !!conflict.processed,
+                replaceSha: resolution === 'replace' ? conflict.existingSha : undefined,
+                replacePath: resolution === 'replace' ? conflict.existingPath : undefined,
+            });
+        });
+        if (items.length === 0) return false;
+
+        setUploadQueue(items);
+        return processUploads(items);
+    };
+
+    const handleImportUrl = async (url: string) => {
+        try {
+            const file = await fetchImageFile(url);
+            return await handleImageUpload(toUploadSources([file]));
+        } catch (error) {
+            // A TypeError here is almost always the remote server refusing cross-origin requests.
+            const reason = error instanceof TypeError ? 'máy chủ không cho phép tải trực tiếp (CORS)' : (error as Error).message;
+            showNotification(`Không thể nhập ảnh từ URL: ${reason}`, 'error');
+            return false;
         }
     };
 
+    const handleResolveUploadConflicts = (resolutions: UploadResolution[]) => {
+        if (!pendingUploads) return;
+        const { conflicts, takenPaths, options } = pendingUploads;
+        setPendingUploads(null);
+        startUploads(conflicts, resolutions, takenPaths, options);
+    };
+
+    const handleRetryFailedUploads = () => {
+        const failed = uploadQueue.filter(item => item.status === 'failed');
+        setUploadQueue(prev => prev.map(item => item.status === 'failed' ? { ...item, status: 'queued' } : item));
+        processUploads(failed);
+    };
+
     const handleDeleteImage = async () => {
         if (!config || !imageToDelete) return;
         const image = imageToDelete;
         setImageToDelete(null); 
 
+        let removedEntries: GitTreeEntry[] = [];
+        const removedMetadata = new Map<string, ImageMetadata>();
         try {
-            await githubApi.request(`/${config.repo}/contents/${image.path}`, config.token, {
-                method: 'DELETE',
-                body: JSON.stringify({
-                    message: `feat: Delete image ${image.name}`,
-                    sha: image.sha,
-                }),
+            const { pullRequest } = await commitChanges(`feat: Delete image ${image.name}`, async tree => {
+                removedEntries = tree.filter(entry => entry.path === image.path || entry.path === thumbnailPath(image.path));
+                removedMetadata.clear();
+                const manifestChanges = await buildManifestMoves(config.repo, config.token, tree, [{ from: image.path, to: null }], removedMetadata);
+                return [...removedEntries.map(entry => ({ ...entry, sha: null })), ...manifestChanges];
             });
+            if (pullRequest) return;
             setImages(prev => prev.filter(img => img.sha !== image.sha));
-            showNotification(`Đã xóa: ${image.name}`, 'success');
+            setSearchResults(prev => prev && prev.filter(img => img.path !== image.path));
+            invalidateFolderImages(libraryKey(config.repo, config.branch), image.path.slice(0, image.path.lastIndexOf('/')));
+            showNotification(`Đã xóa: ${image.name}`, 'success', {
+                label: 'Hoàn tác',
+                onClick: () => restoreEntries(removedEntries, `feat: Restore image ${image.name}`, removedMetadata),
+            });
         } catch (error) {
             showNotification(`Lỗi xóa ${image.name}: ${(error as Error).message}`, 'error');
         }
     };
 
+    const selectedSet = useMemo(() => new Set(selectedPaths), [selectedPaths]);
+    const selectedImages: any[] = sortedImages.filter(image => selectedSet.has(image.path));
+
+    useEffect(() => {
+        setSelectedPaths([]);
+        lastSelectedPath.current = null;
+    }, [activeFolder, searchResults]);
+
+    // Toggles one image, or with `range` selects everything between it and the last clicked image.
+    const toggleSelection = (path: string, range: boolean) => {
+        const anchor = lastSelectedPath.current ? sortedImages.findIndex(img => img.path === lastSelectedPath.current) : -1;
+        const index = sortedImages.findIndex(img => img.path === path);
+        if (range && anchor !== -1) {
+            const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+            const paths = sortedImages.slice(from, to + 1).map(img => img.path);
+            setSelectedPaths(prev => [...new Set([...prev, ...paths])]);
+        } else {
+            setSelectedPaths(prev => prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path]);
+        }
+        lastSelectedPath.current = path;
+    };
+
+    const handleTileClick = (e: React.MouseEvent, index: number) => {
+        const image = sortedImages[index];
+        if (e.shiftKey || e.ctrlKey || e.metaKey || selectedPaths.length > 0) {
+            toggleSelection(image.path, e.shiftKey);
+        } else {
+            handleImageClick(index);
+        }
+    };
+
+    // Rubber-band selection: dragging on the empty gallery background selects the tiles it touches.
+    const handleGalleryPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.target !== e.currentTarget || e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const base = e.shiftKey || e.ctrlKey || e.metaKey ? selectedPaths : [];
+        setSelectionBox({ x0: e.clientX, y0: e.clientY, x1: e.clientX, y1: e.clientY, base });
+    };
+
+    const handleGalleryPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!selectionBox || !galleryRef.current) return;
+        const box = { ...selectionBox, x1: e.clientX, y1: e.clientY };
+        setSelectionBox(box);
+        const [left, right] = [Math.min(box.x0, box.x1), Math.max(box.x0, box.x1)];
+        const [top, bottom] = [Math.min(box.y0, box.y1), Math.max(box.y0, box.y1)];
+        const hits = [...galleryRef.current.querySelectorAll<HTMLElement>('[data-path]')]
+            .filter(tile => {
+                const rect = tile.getBoundingClientRect();
+                return rect.left < right && rect.right > left && rect.top < bottom && rect.bottom > top;
+            })
+            .map(tile => tile.dataset.path!);
+        setSelectedPaths([...new Set([...box.base, ...hits])]);
+    };
+
+    const handleGalleryPointerUp = () => setSelectionBox(null);
+
+    const handleConfirmBulkAction = async () => {
+        if (!config || !bulkAction) return;
+        const action = bulkAction;
+        const targets = selectedImages;
+        setBulkAction(null);
+        setIsLoading(true);
+        const library = libraryKey(config.repo, config.branch);
+        const folders = [...new Set<string>(targets.map(image => parentFolder(image.path)))];
+        try {
+            if (action.kind === 'delete') {
+                let removedEntries: GitTreeEntry[] = [];
+                const removedMetadata = new Map<string, ImageMetadata>();
+                const { pullRequest } = await commitChanges(`feat: Delete ${targets.length} images`, async tree => {
+                    const paths = new Set(targets.flatMap(image => [image.path, thumbnailPath(image.path)]));
+                    removedEntries = tree.filter(entry => paths.has(entry.path));
+                    removedMetadata.clear();
+                    const manifestChanges = await buildManifestMoves(config.repo, config.token, tree, targets.map(image => ({ from: image.path, to: null })), removedMetadata);
+                    return [...removedEntries.map(entry => ({ ...entry, sha: null })), ...manifestChanges];
+                });
+                if (pullRequest) return;
+                const removed = new Set(targets.map(image => image.path));
+                setImages(prev => prev.filter(img => !removed.has(img.path)));
+                setSearchResults(prev => prev && prev.filter(img => !removed.has(img.path)));
+                invalidateFolderImages(library, ...folders);
+                showNotification(`Đã xóa ${targets.length} ảnh.`, 'success', {
+                    label: 'Hoàn tác',
+                    onClick: () => restoreEntries(removedEntries, `feat: Restore ${targets.length} images`, removedMetadata),
+                });
+            } else if (action.kind === 'move') {
+                const moving = targets.filter(image => parentFolder(image.path) !== action.target);
+                const names = moving.map(image => image.name);
+                const duplicates = [...new Set(names.filter((name, index) => names.indexOf(name) !== index))];
+                if (duplicates.length > 0) {
+                    throw new Error(`Nhiều ảnh được chọn trùng tên: ${duplicates.join(', ')}`);
+                }
+                const { pullRequest } = await commitChanges(`refactor: Move ${moving.length} images to ${action.target}`, async tree => {
+                    const paths = new Set(tree.map(entry => entry.path));
+                    const conflicts = moving.filter(image => paths.has(joinPath(action.target, image.name)));
+                    if (conflicts.length > 0) {
+                        throw new Error(`Thư mục "${action.target}" đã có: ${conflicts.map(image => image.name).join(', ')}`);
+                    }
+                    const moves = moving.map(image => ({ from: image.path, to: joinPath(action.target, image.name) }));
+                    const manifestChanges = await buildManifestMoves(config.repo, config.token, tree, moves);
+                    for (const image of moving) {
+                        if (paths.has(thumbnailPath(image.path))) {
+                            moves.push({ from: thumbnailPath(image.path), to: thumbnailPath(joinPath(action.target, image.name)) });
+                        }
+                    }
+                    return [...buildMoveChanges(tree, moves), ...manifestChanges];
+                });
+                if (pullRequest) return;
+                const moved = new Set(moving.map(image => image.path));
+                setImages(prev => prev.filter(img => !moved.has(img.path)));
+                setSearchResults(prev => prev && prev.map(img => moved.has(img.path) ? { ...img, path: joinPath(action.target, img.name) } : img));
+                invalidateFolderImages(library, ...folders, action.target);
+                showNotification(`Đã chuyển ${moving.length} ảnh sang "${action.target}".`, 'success');
+            } else {
+                const tagged = await commitMetadataUpdates(targets, `chore: Tag ${targets.length} images with '${action.tag}'`, metadata => ({
+                    ...metadata,
+                    tags: metadata.tags.includes(action.tag) ? metadata.tags : [...metadata.tags, action.tag],
+                }));
+                if (tagged) showNotification(`Đã gắn thẻ "${action.tag}" cho ${targets.length} ảnh.`, 'success');
+            }
+            setSelectedPaths([]);
+        } catch (error) {
+            showNotification(`Lỗi thao tác hàng loạt: ${(error as Error).message}`, 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Deletes the redundant images of each similar group in one commit. With `merge`, their
+    // tags are added to the image that is kept and empty captions/alt text are filled from them.
+    const handleConfirmSimilar = async () => {
+        if (!config || !similarPlan) return;
+        const { resolutions, merge } = similarPlan;
+        setSimilarPlan(null);
+        setIsSimilarOpen(false);
+        const removed = resolutions.flatMap(resolution => resolution.remove);
+        const folders = [...new Set([...removed, ...resolutions.map(resolution => resolution.keep)].map(parentFolder))];
+        let removedEntries: GitTreeEntry[] = [];
+        const removedMetadata = new Map<string, ImageMetadata>();
+        setIsLoading(true);
+        try {
+            const { pullRequest } = await commitChanges(`refactor: ${merge ? 'Merge' : 'Remove'} ${removed.length} similar images`, async tree => {
+                const paths = new Set(removed.flatMap(path => [path, thumbnailPath(path)]));
+                removedEntries = tree.filter(entry => paths.has(entry.path));
+                removedMetadata.clear();
+                const changes: GitTreeEntry[] = removedEntries.map(entry => ({ ...entry, sha: null }));
+                if (!merge) {
+                    const moves = removed.map(path => ({ from: path, to: null }));
+                    return [...changes, ...await buildManifestMoves(config.repo, config.token, tree, moves, removedMetadata)];
+                }
+
+                const manifests = new Map<string, FolderManifest>();
+                for (const folder of folders) {
+                    const existing = tree.find(entry => entry.path === manifestPath(folder));
+                    manifests.set(folder, existing ? await readManifest(config.repo, config.token, existing.sha!) : {});
+                }
+                for (const { keep, remove } of resolutions) {
+                    const keeperManifest = manifests.get(parentFolder(keep))!;
+                    let metadata = keeperManifest[baseName(keep)] ?? EMPTY_METADATA;
+                    for (const path of remove) {
+                        const manifest = manifests.get(parentFolder(path))!;
+                        const other = manifest[baseName(path)] ?? EMPTY_METADATA;
+                        if (manifest[baseName(path)]) removedMetadata.set(path, other);
+                        metadata = {
+                            tags: [...new Set([...metadata.tags, ...other.tags])],
+                            caption: metadata.caption || other.caption,
+                            alt: metadata.alt || other.alt,
+                        };
+                        delete manifest[baseName(path)];
+                    }
+                    keeperManifest[baseName(keep)] = metadata;
+                }
+                for (const [folder, manifest] of manifests) {
+                    const existing = tree.find(entry => entry.path === manifestPath(folder));
+                    const content = await fileToBase64(new Blob([serializeManifest(manifest)], { type: 'application/json' }));
+                    const sha = await githubApi.createBlob(config.repo, config.token, content);
+                    if (sha !== existing?.sha && (existing || Object.keys(manifest).length > 0)) {
+                        changes.push({ path: manifestPath(folder), mode: '100644', type: 'blob', sha });
+                    }
+                }
+                return changes;
+            });
+            if (pullRequest) return;
+            const gone = new Set(removed);
+            setImages(prev => prev.filter(img => !gone.has(img.path)));
+            setSearchResults(prev => prev && prev.filter(img => !gone.has(img.path)));
+            invalidateFolderImages(libraryKey(config.repo, config.branch), ...folders);
+            if (activeFolder && folders.includes(activeFolder)) loadImagesForFolder(activeFolder, true);
+            showNotification(`Đã ${merge ? 'gộp' : 'xóa'} ${removed.length} ảnh tương tự.`, 'success', {
+                label: 'Hoàn tác',
+                onClick: () => restoreEntries(removedEntries, `feat: Restore ${removed.length} similar images`, removedMetadata),
+            });
+        } catch (error) {
+            showNotification(`Lỗi xử lý ảnh tương tự: ${(error as Error).message}`, 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleCommitAtlas = async (result: AtlasResult, targetPath: string) => {
+        if (!config || !activeFolder) return false;
+        if (!isValidRepoPath(targetPath)) {
+            showNotification(`Đường dẫn không hợp lệ: ${targetPath}`, 'error');
+            return false;
+        }
+        const directory = parentFolder(targetPath);
+        const imagePath = joinPath(directory, result.imageName);
+        const frameMapPath = `${targetPath}.json`;
+        try {
+            const [imageSha, frameMapSha] = await Promise.all([
+                fileToBase64(result.image).then(content => githubApi.createBlob(config.repo, config.token, content)),
+                fileToBase64(new Blob([result.frameMap])).then(content => githubApi.createBlob(config.repo, config.token, content)),
+            ]);
+            const { pullRequest } = await commitChanges(`feat: Export atlas of '${activeFolder}'`, () => [
+                { path: imagePath, mode: '100644', type: 'blob', sha: imageSha },
+                { path: frameMapPath, mode: '100644', type: 'blob', sha: frameMapSha },
+            ]);
+            if (!pullRequest) {
+                invalidateFolderImages(libraryKey(config.repo, config.branch), directory);
+                loadSubfolders(parentFolder(directory)).catch(error => console.error('Could not reload folders', error));
+                showNotification(`Đã lưu atlas vào ${imagePath}.`, 'success');
+            }
+            return true;
+        } catch (error) {
+            showNotification(`Lỗi lưu atlas: ${(error as Error).message}`, 'error');
+            return false;
+        }
+    };
+
+    const handleDownloadZip = async () => {
+        if (!config || selectedImages.length === 0) return;
+        setIsZipping(true);
+        try {
+            const files: { name: string; data: Uint8Array }[] = [];
+            await runWithConcurrency(selectedImages, UPLOAD_CONCURRENCY, async (image) => {
+                // LFS blobs in git are only pointers, so fetch those from the media host.
+                const blob = isLfsPath(image.path, lfsPatterns)
+                    ? await lfsApi.download(image.download_url)
+                    : await githubApi.getBlob(config.repo, config.token, image.sha);
+                files.push({ name: image.path, data: new Uint8Array(await blob.arrayBuffer()) });
+            });
+            const name = (searchActive ? 'ket-qua-tim-kiem' : baseName(activeFolder ?? '')) || 'anh';
+            downloadBlob(createZip(files.sort((a, b) => a.name.localeCompare(b.name))), `${name}.zip`);
+        } catch (error) {
+            showNotification(`Lỗi tạo tệp ZIP: ${(error as Error).message}`, 'error');
+        } finally {
+            setIsZipping(false);
+        }
+    };
+
+    const handleCopySelectedLinks = () => {
+        navigator.clipboard.writeText(selectedImages.map(image => image.download_url).join('\n'));
+        showNotification(`Đã sao chép ${selectedImages.length} liên kết!`, 'success');
+    };
+
+    // Generates thumbnails for every image in the repo that does not have one yet.
+    const handleBackfillThumbnails = async () => {
+        if (!config || typeof OffscreenCanvas === 'undefined') return;
+
+        const title = 'Đang tạo ảnh thu nhỏ';
+        setOperation({ title, progress: null });
+        try {
+            const { tree } = await githubApi.getHead(config.repo, config.token, config.branch);
+            const paths = new Set(tree.map(entry => entry.path));
+            const missing = tree.filter(entry =>
+                entry.type === 'blob'
+                && IMAGE_FILE_PATTERN.test(entry.path)
+                && !entry.path.split('/').includes(THUMBNAIL_DIR)
+                && !isLfsPath(entry.path, lfsPatterns)
+                && !paths.has(thumbnailPath(entry.path)));
+
+            const generated: GitTreeEntry[] = [];
+            const failed: string[] = [];
+            let processed = 0;
+            await runWithConcurrency(missing, UPLOAD_CONCURRENCY, async (entry) => {
+                try {
+                    const original = await githubApi.getBlob(config.repo, config.token, entry.sha!);
+                    const thumbnail = await createThumbnail(original);
+                    const sha = await githubApi.createBlob(config.repo, config.token, await fileToBase64(thumbnail));
+                    generated.push({ path: thumbnailPath(entry.path), mode: '100644', type: 'blob', sha });
+                } catch (error) {
+                    failed.push(`${entry.path}: ${(error as Error).message}`);
+                }
+                processed++;
+                setOperation(prev => prev && { ...prev, title: `${title} (${processed}/${missing.length})` });
+            });
+
+            if (generated.length > 0) {
+                await githubApi.commitTreeChanges(
+                    config.repo,
+                    config.token,
+                    config.branch,
+                    `chore: Generate ${generated.length} thumbnails`,
+                    () => generated,
+                    progress => setOperation(prev => prev && { ...prev, progress }),
+                );
+            }
+            setOperation(prev => prev && {
+                ...prev,
+                result: {
+                    type: failed.length > 0 ? 'error' : 'success',
+                    message: `Đã tạo ${generated.length} ảnh thu nhỏ.${failed.length > 0 ? ` ${failed.length} ảnh lỗi:` : ''}`,
+                    details: failed,
+                },
+            });
+            if (generated.length > 0) {
+                folderImageCache.clear();
+                if (activeFolder) loadImagesForFolder(activeFolder, true);
+            }
+        } catch (error) {
+            setOperation(prev => prev && { ...prev, result: { type: 'error', message: (error as Error).message, details: [] } });
+        }
+    };
+
+    const handleRestoreVersion = async (image: any, version: ImageVersion) => {
+        if (!config) return;
+        try {
+            // Bring back the thumbnail from the same commit so the gallery matches the restored image.
+            const oldThumbnail = await githubApi.request(contentsPath(config.repo, thumbnailPath(image.path), version.commitSha), config.token).catch(() => null);
+            const { pullRequest } = await commitChanges(`feat: Restore ${image.name} to ${version.commitSha.slice(0, 7)}`, tree => {
+                const changes: GitTreeEntry[] = [{ path: image.path, mode: '100644', type: 'blob', sha: version.blobSha }];
+                if (oldThumbnail) {
+                    changes.push({ path: thumbnailPath(image.path), mode: '100644', type: 'blob', sha: oldThumbnail.sha });
+                } else if (tree.some(entry => entry.path === thumbnailPath(image.path))) {
+                    changes.push({ path: thumbnailPath(image.path), mode: '100644', type: 'blob', sha: null });
+                }
+                return changes;
+            });
+            if (pullRequest) return;
+            showNotification(`Đã khôi phục ${image.name} về phiên bản ${version.commitSha.slice(0, 7)}.`, 'success');
+            const folder = parentFolder(image.path);
+            invalidateFolderImages(libraryKey(config.repo, config.branch), folder);
+            if (activeFolder === folder) loadImagesForFolder(folder, true);
+        } catch (error) {
+            showNotification(`Lỗi khôi phục ${image.name}: ${(error as Error).message}`, 'error');
+        }
+    };
+
+    // Commits an edited image either over the original path (the old version stays in the
+    // history) or as a new file next to it. Returns false on failure or in review mode.
+    const handleSaveEdit = async (image: any, blob: Blob, targetPath: string, replace: boolean) => {
+        if (!config) return false;
+        const name = baseName(targetPath);
+        if (!replace && !isAssetPath(targetPath)) {
+            showNotification(`Tên tệp không hợp lệ: ${name}`, 'error');
+            return false;
+        }
+        try {
+            let content: string;
+            if (isLfsPath(targetPath, lfsPatterns)) {
+                content = btoa(await lfsApi.upload(config.repo, config.token, blob));
+            } else if (blob.size > MAX_BLOB_SIZE) {
+                throw new Error(`Tệp quá lớn (${formatBytes(blob.size)}, tối đa ${formatBytes(MAX_BLOB_SIZE)}).`);
+            } else {
+                content = await fileToBase64(blob);
+            }
+            const sha = await githubApi.createBlob(config.repo, config.token, content);
+            const thumbnailSha = await githubApi.createBlob(config.repo, config.token, await fileToBase64(await createThumbnail(blob)));
+            const message = replace ? `feat: Edit ${image.name}` : `feat: Add ${name} (edited from ${image.name})`;
+            const { pullRequest } = await commitChanges(message, tree => {
+                const existing = tree.find(entry => entry.path === targetPath);
+                if (replace && existing?.sha !== image.sha) {
+                    throw new Error(`${image.name} đã bị thay đổi ở nơi khác. Hãy làm mới rồi chỉnh sửa lại.`);
+                }
+                if (!replace && existing) throw new Error(`Đã có tệp ${name} trong thư mục này.`);
+                return [
+                    { path: targetPath, mode: '100644', type: 'blob', sha },
+                    { path: thumbnailPath(targetPath), mode: '100644', type: 'blob', sha: thumbnailSha },
+                ];
+            });
+            if (pullRequest) return false;
+            showNotification(replace ? `Đã lưu chỉnh sửa cho ${image.name}.` : `Đã lưu ảnh mới ${name}.`, 'success');
+            const folder = parentFolder(targetPath);
+            invalidateFolderImages(libraryKey(config.repo, config.branch), folder);
+            if (activeFolder === folder) loadImagesForFolder(folder, true);
+            return true;
+        } catch (error) {
+            showNotification(`Lỗi lưu chỉnh sửa ${image.name}: ${(error as Error).message}`, 'error');
+            return false;
+        }
+    };
+
+    // Applies `edit` to the metadata of every target image in one commit. Each folder's
+    // manifest is re-read on every attempt and merged, so concurrent edits to other
+    // images (or other fields of the same image) are kept. Returns false in review mode.
+    const commitMetadataUpdates = async (targets: any[], message: string, edit: (metadata: ImageMetadata) => ImageMetadata) => {
+        if (!config) return false;
+        const merged = new Map<string, ImageMetadata>();
+        const folders = [...new Set(targets.map(image => parentFolder(image.path)))];
+        const { pullRequest } = await commitChanges(message, async tree => {
+            const changes: GitTreeEntry[] = [];
+            for (const folder of folders) {
+                const existing = tree.find(entry => entry.path === manifestPath(folder));
+                const manifest = existing ? await readManifest(config.repo, config.token, existing.sha!) : {};
+                for (const image of targets.filter(target => parentFolder(target.path) === folder)) {
+                    const base: ImageMetadata = image.metadata ?? EMPTY_METADATA;
+                    const metadata = mergeMetadata(base, edit(base), manifest[image.name] ?? EMPTY_METADATA);
+                    manifest[image.name] = metadata;
+                    merged.set(image.path, metadata);
+                }
+                const content = await fileToBase64(new Blob([serializeManifest(manifest)], { type: 'application/json' }));
+                const sha = await githubApi.createBlob(config.repo, config.token, content);
+                if (sha !== existing?.sha) changes.push({ path: manifestPath(folder), mode: '100644', type: 'blob', sha });
+            }
+            return changes;
+        });
+        if (pullRequest) return false;
+        const update = (list: any[]) => list.map(img => merged.has(img.path) ? { ...img, metadata: merged.get(img.path) } : img);
+        setImages(prev => update(prev));
+        setSearchResults(prev => prev && update(prev));
+        invalidateFolderImages(libraryKey(config.repo, config.branch), ...folders);
+        return true;
+    };
+
+    const handleSaveMetadata = async (image: any, metadata: ImageMetadata) => {
+        try {
+            if (await commitMetadataUpdates([image], `chore: Update metadata of ${image.name}`, () => metadata)) {
+                showNotification(`Đã lưu thông tin của ${image.name}.`, 'success');
+            }
+        } catch (error) {
+            showNotification(`Lỗi lưu thông tin ${image.name}: ${(error as Error).message}`, 'error');
+        }
+    };
+
     const handleCopyLink = (url: string) => {
         navigator.clipboard.writeText(url);
         showNotification('Đã sao chép liên kết!', 'success');
@@ -612,96 +5116,293 @@ const App = () => {
         }
     };
 
+    // The sidebar is a flat list indented by depth; expanded folders render their children right below.
+    const renderFolderItems = (parent: string): React.ReactNode => (folderTree[parent] ?? []).map(folder => {
+        const depth = folder.split('/').length - 1;
+        const isExpanded = expandedFolders.includes(folder);
+        const hasChildren = folderTree[folder] === undefined || folderTree[folder].length > 0;
+        return (
+            <React.Fragment key={folder}>
+                <li
+                    className={`folder-item ${folder === activeFolder ? 'active' : ''} ${folder === dropTargetFolder ? 'drop-target' : ''}`}
+                    style={{ paddingLeft: `${0.75 + depth}rem` }}
+                    onClick={() => renamingFolder !== folder && setActiveFolder(folder)}
+                    onDragOver={(e) => {
+                        if (!e.dataTransfer.types.includes(IMAGE_DRAG_TYPE) || (folder === activeFolder && !searchActive)) return;
+                        e.preventDefault();
+                        setDropTargetFolder(folder);
+                    }}
+                    onDragLeave={() => setDropTargetFolder(null)}
+                    onDrop={(e) => {
+                        e.preventDefault();
+                        setDropTargetFolder(null);
+                        const imagePath = e.dataTransfer.getData(IMAGE_DRAG_TYPE);
+                        if (imagePath) handleMoveImage(imagePath, folder);
+                    }}
+                >
+                    {renamingFolder === folder ? (
+                        <input
+                            ref={renameInputRef}
+                            type="text"
+                            value={newFolderName}
+                            onChange={(e) => setNewFolderName(e.target.value)}
+                            onBlur={handleFinishRename}
+                            onKeyDown={handleRenameKeyDown}
+                            className="rename-folder-input"
+                        />
+                    ) : (
+                        <>
+                            <button
+                                className="folder-toggle"
+                                style={{ visibility: hasChildren ? 'visible' : 'hidden' }}
+                                onClick={(e) => { e.stopPropagation(); handleToggleFolder(folder); }}
+                                aria-label={isExpanded ? `Thu gọn ${folder}` : `Mở rộng ${folder}`}
+                            >
+                                {isExpanded ? '▾' : '▸'}
+                            </button>
+                            <span className="folder-name" onDoubleClick={() => handleStartRename(folder)}>
+                                {baseName(folder)}
+                            </span>
+                            <button className="delete-folder-button" onClick={(e) => { e.stopPropagation(); setFolderToDelete(folder); }} aria-label={`Xóa thư mục ${folder}`}>×</button>
+                        </>
+                    )}
+                </li>
+                {isExpanded && renderFolderItems(folder)}
+            </React.Fragment>
+        );
+    });
+
+    const sortSelect = (
+        <>
+            <label htmlFor="sort-order">Sắp xếp theo: </label>
+            <select id="sort-order" value={sortOrder} onChange={e => setSortOrder(e.target.value)} className="sort-select">
+                <option value="date-desc">Ngày tải lên (Mới nhất)</option>
+                <option value="date-asc">Ngày tải lên (Cũ nhất)</option>
+                <option value="name-asc">Tên (A-Z)</option>
+                <option value="name-desc">Tên (Z-A)</option>
+            </select>
+            {availableTags.length > 0 && (
+                <select value={tagFilter} onChange={e => { setTagFilter(e.target.value); setCurrentPage(1); }} className="sort-select" aria-label="Lọc theo thẻ">
+                    <option value="">Mọi thẻ</option>
+                    {availableTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                </select>
+            )}
+        </>
+    );
+
+    const renderImageTile = (image: any) => {
+        const fullIndex = sortedImages.findIndex(img => img.path === image.path);
+        return (
+            <div
+                key={image.path}
+                data-path={image.path}
+                className={`gallery-item ${selectedSet.has(image.path) ? 'selected' : ''}`}
+                onClick={(e) => handleTileClick(e, fullIndex)}
+                draggable
+                onDragStart={(e) => e.dataTransfer.setData(IMAGE_DRAG_TYPE, image.path)}
+            >
+                <input
+                    type="checkbox"
+                    className="select-checkbox"
+                    checked={selectedSet.has(image.path)}
+                    onClick={(e) => { e.stopPropagation(); toggleSelection(image.path, e.shiftKey); }}
+                    onChange={() => {}}
+                    aria-label={`Chọn ${image.name}`}
+                />
+                <button className="delete-button" aria-label="Xóa ảnh" onClick={(e) => { e.stopPropagation(); setImageToDelete(image); }}>🗑️</button>
+                <img
+                    src={image.thumbnail_url ?? image.download_url}
+                    alt={image.metadata?.alt || image.name}
+                    className="gallery-image"
+                    loading="lazy"
+                    onError={(e) => {
+                        if (e.currentTarget.src !== image.download_url) e.currentTarget.src = image.download_url;
+                    }}
+                />
+                <div className="image-info">
+                    <p className="image-link" title={image.name}>
+                        {image.name}
+                    </p>
+                    {searchActive && (
+                        <button className="image-folder-link" title={image.path} onClick={(e) => { e.stopPropagation(); handleOpenResultFolder(image.path); }}>
+                            {parentFolder(image.path) || '/'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    const galleryProps = {
+        ref: galleryRef,
+        className: 'gallery-container',
+        onPointerDown: handleGalleryPointerDown,
+        onPointerMove: handleGalleryPointerMove,
+        onPointerUp: handleGalleryPointerUp,
+        onPointerCancel: handleGalleryPointerUp,
+    };
+
+    const bulkActionBar = selectedImages.length > 0 && (
+        <BulkActionBar
+            count={selectedImages.length}
+            total={sortedImages.length}
+            folders={[...new Set(Object.values(folderTree as FolderTree).flat())].sort()}
+            isBusy={isZipping}
+            onSelectAll={() => setSelectedPaths(sortedImages.map((image: any) => image.path))}
+            onClear={() => setSelectedPaths([])}
+            onDelete={() => setBulkAction({ kind: 'delete' })}
+            onMove={(target) => setBulkAction({ kind: 'move', target })}
+            onTag={(tag) => setBulkAction({ kind: 'tag', tag })}
+            onDownload={handleDownloadZip}
+            onCopyLinks={handleCopySelectedLinks}
+        />
+    );
+
+    const pagination = totalPages > 1 && (
+        <div className="pagination">
+            <button onClick={() => setCurrentPage(p => p - 1)} disabled={currentPage === 1}>Trước</button>
+            <span>Trang {currentPage} / {totalPages}</span>
+            <button onClick={() => setCurrentPage(p => p + 1)} disabled={currentPage === totalPages}>Sau</button>
+        </div>
+    );
+
     if (isLoading && !isAuthenticated) {
         return <div className="loader" aria-label="Đang tải"></div>;
     }
     
     if (!isAuthenticated) {
-        return <Login onLogin={handleLogin} loginError={loginError} isLoading={isLoading} />;
+        return (
+            <Login
+                onLogin={handleLogin}
+                onUnlock={handleUnlock}
+                onForget={handleForgetStoredToken}
+                unlockRepo={unlockRepo}
+                loginError={loginError}
+                isLoading={isLoading}
+            />
+        );
     }
 
     return (
         <>
             <header>
+                <RateLimitIndicator />
                 <h1>Lưu Ảnh</h1>
+                {config && (
+                    <div className="review-controls">
+                        <label>
+                            <input type="checkbox" checked={reviewMode} onChange={e => handleToggleReviewMode(e.target.checked)} />
+                            Chế độ duyệt (tạo pull request)
+                        </label>
+                        <button onClick={() => setIsReviewOpen(true)}>Yêu cầu duyệt</button>
+                        <button onClick={() => setIsSimilarOpen(true)}>Ảnh tương tự</button>
+                    </div>
+                )}
+                {config && (
+                    <LibrarySwitcher
+                        libraries={libraries}
+                        current={{ repo: config.repo, branch: config.branch }}
+                        token={config.token}
+                        onSwitch={handleSwitchLibrary}
+                        onRemove={handleRemoveLibrary}
+                    />
+                )}
                 <button onClick={handleLogout} className="logout-button">Đăng xuất</button>
             </header>
+            {tokenWarnings.length > 0 && (
+                <div className="token-warnings" role="alert">
+                    <ul>
+                        {tokenWarnings.map(warning => <li key={warning}>{warning}</li>)}
+                    </ul>
+                    <button onClick={() => setTokenWarnings([])} aria-label="Đóng cảnh báo">×</button>
+                </div>
+            )}
             <main className="app-container">
                 <aside className="sidebar">
                     <div className="sidebar-header">
                         <h2>Thư mục</h2>
-                        <button onClick={loadFolders} className="refresh-button" aria-label="Làm mới danh sách thư mục">🔄</button>
+                        <button onClick={handleRefresh} className="refresh-button" aria-label="Làm mới danh sách thư mục">🔄</button>
+                        <button onClick={() => setIsTrashOpen(true)} className="refresh-button" aria-label="Thùng rác" title="Thùng rác">🗑️</button>
                     </div>
                     <ul className="folder-list">
-                        {folders.map(folder => (
-                            <li key={folder} className={`folder-item ${folder === activeFolder ? 'active' : ''}`} onClick={() => renamingFolder !== folder && setActiveFolder(folder)}>
-                                {renamingFolder === folder ? (
-                                    <input
-                                        ref={renameInputRef}
-                                        type="text"
-                                        value={newFolderName}
-                                        onChange={(e) => setNewFolderName(e.target.value)}
-                                        onBlur={handleFinishRename}
-                                        onKeyDown={handleRenameKeyDown}
-                                        className="rename-folder-input"
-                                    />
-                                ) : (
-                                    <>
-                                        <span className="folder-name" onDoubleClick={() => handleStartRename(folder)}>
-                                            {folder}
-                                        </span>
-                                        <button className="delete-folder-button" onClick={(e) => { e.stopPropagation(); setFolderToDelete(folder); }} aria-label={`Xóa thư mục ${folder}`}>×</button>
-                                    </>
-                                )}
-                            </li>
-                        ))}
+                        {renderFolderItems('')}
                     </ul>
                     <form onSubmit={handleAddFolder} className="add-folder-form">
                         <input name="folderName" type="text" placeholder="Tên thư mục mới..." className="add-folder-input" aria-label="Tên thư mục mới" required />
                         <button type="submit" className="add-folder-button" aria-label="Thêm thư mục">+</button>
+                        {activeFolder && (
+                            <label className="add-folder-nested">
+                                <input name="nested" type="checkbox" />
+                                Tạo bên trong "{baseName(activeFolder)}"
+                            </label>
+                        )}
                     </form>
                 </aside>
                 <section className="main-content">
-                    {activeFolder ? (
+                    <SearchBar query={searchQuery} onChange={setSearchQuery} />
+                    {searchActive ? (
                         <>
-                            <Uploader activeFolder={activeFolder} onImageUpload={handleImageUpload} />
+                            <div className="gallery-controls">
+                                {sortSelect}
+                                <span className="search-status">
+                                    {isSearching ? 'Đang tìm...' : `${sortedImages.length} kết quả trong "${config?.branch}"`}
+                                </span>
+                            </div>
+                            {bulkActionBar}
+                            <div {...galleryProps}>
+                                {isSearching && !searchResults && <div className="loader" aria-label="Đang tìm"></div>}
+                                {paginatedImages.map(renderImageTile)}
+                            </div>
+                            {searchResults?.length === 0 && !isSearching && <p>Không tìm thấy ảnh nào phù hợp.</p>}
+                            {pagination}
+                        </>
+                    ) : activeFolder ? (
+                        <>
+                            <Breadcrumbs path={activeFolder} onNavigate={selectFolder} />
+                            <Uploader
+                                activeFolder={activeFolder}
+                                onImageUpload={handleImageUpload}
+                                onImportUrl={handleImportUrl}
+                                onError={message => showNotification(message, 'error')}
+                                queue={uploadQueue}
+                                isUploading={isUploading}
+                                onRetryFailed={handleRetryFailedUploads}
+                                onClearQueue={() => setUploadQueue([])}
+                                processingOptions={processingOptions}
+                                onProcessingOptionsChange={handleProcessingOptionsChange}
+                            />
                              {isUploading && <div className="loader" aria-label="Đang tải lên"></div>}
 
                             <div className="gallery-controls">
-                                <label htmlFor="sort-order">Sắp xếp theo: </label>
-                                <select id="sort-order" value={sortOrder} onChange={e => setSortOrder(e.target.value)} className="sort-select">
-                                    <option value="date-desc">Ngày tải lên (Mới nhất)</option>
-                                    <option value="date-asc">Ngày tải lên (Cũ nhất)</option>
-                                    <option value="name-asc">Tên (A-Z)</option>
-                                    <option value="name-desc">Tên (Z-A)</option>
-                                </select>
+                                {sortSelect}
+                                {cacheStatus !== 'fresh' && (
+                                    <span className={`cache-status ${cacheStatus}`}>
+                                        {cacheStatus === 'stale' ? 'Đang hiển thị bản đã lưu, đang làm mới...' : 'Ngoại tuyến: đang hiển thị bản đã lưu'}
+                                    </span>
+                                )}
+                                <button onClick={handleBackfillThumbnails} className="gallery-action-button" disabled={!!operation && !operation.result}>
+                                    Tạo ảnh thu nhỏ còn thiếu
+                                </button>
+                                <button onClick={() => setIsAtlasOpen(true)} className="gallery-action-button" disabled={images.length === 0}>
+                                    Xuất atlas
+                                </button>
                             </div>
                             
-                            <div className="gallery-container">
+                            {bulkActionBar}
+                            <div {...galleryProps}>
                                 {isLoading && images.length === 0 && <div className="loader" aria-label="Đang tải ảnh"></div>}
-                                {paginatedImages.map(image => {
-                                    const fullIndex = sortedImages.findIndex(img => img.sha === image.sha);
-                                    return (
-                                        <div key={image.sha} className="gallery-item" onClick={() => handleImageClick(fullIndex)}>
-                                            <button className="delete-button" aria-label="Xóa ảnh" onClick={(e) => { e.stopPropagation(); setImageToDelete(image); }}>🗑️</button>
-                                            <img src={image.download_url} alt={image.name} className="gallery-image" />
-                                            <div className="image-info">
-                                                <p className="image-link" title={image.name}>
-                                                    {image.name}
-                                                </p>
-                                            </div>
+                                {currentPage === 1 && (folderTree[activeFolder] ?? []).map(subfolder => (
+                                    <div key={subfolder} className="gallery-item gallery-folder" onClick={() => selectFolder(subfolder)}>
+                                        <span className="gallery-folder-icon">📁</span>
+                                        <div className="image-info">
+                                            <p className="image-link" title={subfolder}>{baseName(subfolder)}</p>
                                         </div>
-                                    );
-                                })}
+                                    </div>
+                                ))}
+                                {paginatedImages.map(renderImageTile)}
                             </div>
-                            {images.length === 0 && !isLoading && !isUploading && <p>Thư mục này trống. Hãy tải lên vài tấm ảnh!</p>}
-                            {totalPages > 1 && (
-                                <div className="pagination">
-                                    <button onClick={() => setCurrentPage(p => p - 1)} disabled={currentPage === 1}>Trước</button>
-                                    <span>Trang {currentPage} / {totalPages}</span>
-                                    <button onClick={() => setCurrentPage(p => p + 1)} disabled={currentPage === totalPages}>Sau</button>
-                                </div>
-                            )}
+                            {images.length === 0 && !(folderTree[activeFolder] ?? []).length && !isLoading && !isUploading && <p>Thư mục này trống. Hãy tải lên vài tấm ảnh!</p>}
+                            {pagination}
                         </>
                     ) : (
                          <div className="placeholder">
@@ -710,7 +5411,7 @@ const App = () => {
                     )}
                 </section>
             </main>
-            {selectedImageIndex !== null && (
+            {selectedImageIndex !== null && config && (
                 <ImageViewerModal
                     images={sortedImages}
                     currentIndex={selectedImageIndex}
@@ -718,6 +5419,12 @@ const App = () => {
                     onNext={handleNextImage}
                     onPrev={handlePrevImage}
                     onCopyLink={handleCopyLink}
+                    library={{ repo: config.repo, branch: config.branch }}
+                    token={config.token}
+                    lfsPatterns={lfsPatterns}
+                    onRestoreVersion={handleRestoreVersion}
+                    onSaveMetadata={handleSaveMetadata}
+                    onSaveEdit={handleSaveEdit}
                 />
             )}
             <ConfirmationModal
@@ -726,9 +5433,9 @@ const App = () => {
                 onConfirm={handleConfirmDeleteFolder}
                 title="Xác nhận Xóa Thư mục"
             >
-                <p>Bạn có chắc chắn muốn xóa vĩnh viễn thư mục:</p>
+                <p>Bạn có chắc chắn muốn xóa thư mục:</p>
                 <p><strong>{folderToDelete}</strong></p>
-                <p>Tất cả ảnh bên trong cũng sẽ bị xóa. Hành động này không thể hoàn tác.</p>
+                <p>Tất cả ảnh và thư mục con bên trong cũng sẽ bị xóa. Bạn có thể khôi phục chúng từ Thùng rác.</p>
             </ConfirmationModal>
              <ConfirmationModal
                 isOpen={!!imageToDelete}
@@ -736,14 +5443,113 @@ const App = () => {
                 onConfirm={handleDeleteImage}
                 title="Xác nhận Xóa Ảnh"
             >
-                <p>Bạn có chắc chắn muốn xóa vĩnh viễn ảnh:</p>
+                <p>Bạn có chắc chắn muốn xóa ảnh:</p>
                 <p><strong>{imageToDelete?.name}</strong></p>
             </ConfirmationModal>
-            <Notification message={notification?.message ?? null} type={notification?.type ?? 'success'} onEnd={() => setNotification(null)} />
+            <ConfirmationModal
+                isOpen={!!bulkAction}
+                onClose={() => setBulkAction(null)}
+                onConfirm={handleConfirmBulkAction}
+                title={bulkAction?.kind === 'delete' ? 'Xác nhận Xóa Ảnh' : bulkAction?.kind === 'move' ? 'Xác nhận Chuyển Ảnh' : 'Xác nhận Gắn Thẻ'}
+                confirmLabel={bulkAction?.kind === 'delete' ? 'Xóa' : bulkAction?.kind === 'move' ? 'Chuyển' : 'Gắn thẻ'}
+                variant={bulkAction?.kind === 'delete' ? 'danger' : 'primary'}
+            >
+                <p>
+                    {bulkAction?.kind === 'delete' && `Xóa ${selectedImages.length} ảnh sau trong một commit:`}
+                    {bulkAction?.kind === 'move' && `Chuyển ${selectedImages.length} ảnh sau sang "${bulkAction.target}" trong một commit:`}
+                    {bulkAction?.kind === 'tag' && `Gắn thẻ "${bulkAction.tag}" cho ${selectedImages.length} ảnh sau trong một commit:`}
+                </p>
+                <ul className="bulk-file-list">
+                    {selectedImages.map(image => <li key={image.path}>{image.path}</li>)}
+                </ul>
+            </ConfirmationModal>
+            {isAtlasOpen && config && activeFolder && (
+                <AtlasExportModal
+                    library={{ repo: config.repo, branch: config.branch }}
+                    token={config.token}
+                    folder={activeFolder}
+                    images={images}
+                    lfsPatterns={lfsPatterns}
+                    onClose={() => setIsAtlasOpen(false)}
+                    onCommit={handleCommitAtlas}
+                />
+            )}
+            {isSimilarOpen && config && (
+                <SimilarImagesModal
+                    library={{ repo: config.repo, branch: config.branch }}
+                    token={config.token}
+                    lfsPatterns={lfsPatterns}
+                    onClose={() => setIsSimilarOpen(false)}
+                    onResolve={(resolutions, merge) => setSimilarPlan({ resolutions, merge })}
+                />
+            )}
+            <ConfirmationModal
+                isOpen={!!similarPlan}
+                onClose={() => setSimilarPlan(null)}
+                onConfirm={handleConfirmSimilar}
+                title={similarPlan?.merge ? 'Xác nhận Gộp Ảnh' : 'Xác nhận Xóa Ảnh'}
+                confirmLabel={similarPlan?.merge ? 'Gộp' : 'Xóa'}
+            >
+                <p>
+                    {similarPlan?.merge
+                        ? 'Các ảnh sau sẽ bị xóa, thẻ và chú thích của chúng được gộp vào ảnh giữ lại:'
+                        : 'Các ảnh sau sẽ bị xóa trong một commit:'}
+                </p>
+                <ul className="bulk-file-list">
+                    {similarPlan?.resolutions.map(({ keep, remove }) => remove.map(path => <li key={path}>{path} → {keep}</li>))}
+                </ul>
+            </ConfirmationModal>
+            {pendingUploads && (
+                <UploadConflictModal
+                    conflicts={pendingUploads.conflicts}
+                    onCancel={() => setPendingUploads(null)}
+                    onConfirm={handleResolveUploadConflicts}
+                />
+            )}
+            {selectionBox && (
+                <div
+                    className="selection-box"
+                    style={{
+                        left: Math.min(selectionBox.x0, selectionBox.x1),
+                        top: Math.min(selectionBox.y0, selectionBox.y1),
+                        width: Math.abs(selectionBox.x1 - selectionBox.x0),
+                        height: Math.abs(selectionBox.y1 - selectionBox.y0),
+                    }}
+                />
+            )}
+            {isReviewOpen && config && (
+                <PullRequestsModal
+                    repo={config.repo}
+                    token={config.token}
+                    base={config.branch}
+                    onClose={() => setIsReviewOpen(false)}
+                    onMerged={() => {
+                        folderImageCache.clear();
+                        handleRefresh();
+                    }}
+                />
+            )}
+            {isTrashOpen && config && (
+                <TrashModal
+                    repo={config.repo}
+                    token={config.token}
+                    branch={config.branch}
+                    onClose={() => setIsTrashOpen(false)}
+                    onRestore={handleRestoreFromTrash}
+                />
+            )}
+            <OperationPanel status={operation} onDismiss={() => setOperation(null)} />
+            <Notification message={notification?.message ?? null} type={notification?.type ?? 'success'} action={notification?.action} onEnd={() => setNotification(null)} />
         </>
     );
 };
 
+if ('serviceWorker' in navigator) {
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js').catch(error => console.error('Service worker registration failed', error));
+    });
+}
+
 const container = document.getElementById('root');
 const root = createRoot(container!);
 root.render(<App />);
\ No newline at end of file
@@ -0,0 +1,85 @@
+// Keeps the gallery browsable offline. Both the app shell and images from GitHub's
+// raw/media hosts are served network-first: image URLs are addressed by branch and
+// path, so the bytes behind them change when an image is replaced, edited or restored.
+// API responses are cached by the app itself in IndexedDB, so api.github.com is left alone here.
+
+const SHELL_CACHE = 'luu-anh-shell-v1';
+const IMAGE_CACHE = 'luu-anh-images-v2';
+const IMAGE_HOSTS = ['raw.githubusercontent.com', 'media.githubusercontent.com'];
+const MAX_IMAGE_ENTRIES = 300;
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== IMAGE_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data === 'clear-cache') {
+    event.waitUntil(Promise.all([caches.delete(SHELL_CACHE), caches.delete(IMAGE_CACHE)]));
+  }
+});
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Private-repo URLs carry a short-lived ?token=, so cache entries are keyed without it.
+const imageCacheKey = (request) => {
+  const url = new URL(request.url);
+  url.searchParams.delete('token');
+  return url.href;
+};
+
+// Cache keys come back in insertion order, so the oldest entries are dropped first.
+const trimImageCache = async (cache) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_IMAGE_ENTRIES)).map(key => cache.delete(key)));
+};
+
+const networkFirstImage = async (request) => {
+  const cache = await caches.open(IMAGE_CACHE);
+  const key = imageCacheKey(request);
+  try {
+    // <img> requests are no-cors and would come back opaque (status 0), which cannot be
+    // validated and is charged padded quota. Both hosts send CORS headers, so ask for a
+    // readable response instead; opaque ones are never stored.
+    const response = await fetch(request.url, { mode: 'cors', credentials: 'omit' });
+    if (response.ok) {
+      await cache.delete(key);
+      await cache.put(key, response.clone());
+      trimImageCache(cache);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    if (request.mode === 'no-cors') return fetch(request);
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (IMAGE_HOSTS.includes(url.hostname)) {
+    event.respondWith(networkFirstImage(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -8,7 +8,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GITHUB_CLIENT_ID': JSON.stringify(env.GITHUB_CLIENT_ID),
+        'process.env.GITHUB_OAUTH_BASE': JSON.stringify(env.GITHUB_OAUTH_BASE),
+        'process.env.GITHUB_LFS_BASE': JSON.stringify(env.GITHUB_LFS_BASE)
       },
       resolve: {
         alias: {